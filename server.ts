@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { createApiRouter } from './server/api.ts';
+import { openDatabase } from './server/db.ts';
+import { createImageCache } from './server/imageCache.ts';
+import { createJobQueue } from './server/jobs.ts';
+import { createLibrary } from './server/library.ts';
+import { createModeration } from './server/moderation.ts';
+import { createImageProvider } from './server/providers/index.ts';
+import { createUsage } from './server/usage.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+
+  const db = openDatabase();
+  const provider = createImageProvider();
+  const cache = createImageCache(db);
+  const usage = createUsage(db);
+  app.use('/api', createApiRouter({
+    provider,
+    library: createLibrary(db),
+    jobs: createJobQueue(db, provider, cache, usage),
+    cache,
+    usage,
+    moderation: createModeration(),
+  }));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,69 @@
+/**
+ * Maintenance commands, run against the same database as the server:
+ *
+ *   npm run admin -- cache stats
+ *   npm run admin -- cache prune --days 30
+ *   npm run admin -- cache prune --max-mb 500
+ */
+
+import dotenv from 'dotenv';
+import { openDatabase } from './db.ts';
+import { createImageCache } from './imageCache.ts';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const USAGE = `Usage:
+  npm run admin -- cache stats
+  npm run admin -- cache prune [--days N] [--max-mb N]`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** The positive number after `flag`, or undefined when the flag is absent. */
+function numberFlag(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`${flag} needs a number of zero or more.`);
+  return value;
+}
+
+function main(args: string[]) {
+  const [area, command, ...options] = args;
+  if (area !== 'cache' || (command !== 'stats' && command !== 'prune')) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const cache = createImageCache(openDatabase());
+  if (command === 'prune') {
+    const days = numberFlag(options, '--days');
+    const maxMb = numberFlag(options, '--max-mb');
+    if (days === undefined && maxMb === undefined) {
+      console.error(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+    if (days !== undefined) {
+      const removed = cache.pruneUnusedSince(new Date(Date.now() - days * DAY_MS));
+      console.log(`Removed ${removed} image${removed === 1 ? '' : 's'} unused for ${days} day${days === 1 ? '' : 's'}.`);
+    }
+    if (maxMb !== undefined) {
+      const removed = cache.pruneToSize(maxMb * 1024 * 1024);
+      console.log(`Removed ${removed} least recently used image${removed === 1 ? '' : 's'} to fit in ${maxMb} MB.`);
+    }
+  }
+
+  const { entries, bytes, hits, oldest, newest } = cache.stats();
+  console.log(`Image cache: ${entries} image${entries === 1 ? '' : 's'}, ${formatMb(bytes)}, reused ${hits} time${hits === 1 ? '' : 's'}.`);
+  if (oldest && newest) console.log(`Last used between ${oldest} and ${newest}.`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  console.error((err as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,36 @@
+import express from 'express';
+import { errorHandler } from './http.ts';
+import type { ImageCache } from './imageCache.ts';
+import type { JobQueue } from './jobs.ts';
+import type { Library } from './library.ts';
+import type { Moderation } from './moderation.ts';
+import type { ImageProvider } from './providers/index.ts';
+import { createBooksRouter } from './routes/books.ts';
+import { createGenerationRouter } from './routes/generation.ts';
+import { createJobsRouter } from './routes/jobs.ts';
+import { createUsageRouter } from './routes/usage.ts';
+import type { Usage } from './usage.ts';
+
+export interface ApiDependencies {
+  provider: ImageProvider;
+  library: Library;
+  jobs: JobQueue;
+  cache: ImageCache;
+  usage: Usage;
+  moderation: Moderation;
+}
+
+export function createApiRouter({ provider, library, jobs, cache, usage, moderation }: ApiDependencies) {
+  const router = express.Router();
+
+  // Photos and saved books travel as base64 data URLs, so allow generous bodies.
+  // Parsed here so a malformed body reaches `errorHandler` and gets a JSON answer.
+  router.use(express.json({ limit: '50mb' }));
+  router.use(createGenerationRouter(provider, cache, usage, moderation));
+  router.use('/books', createBooksRouter(library));
+  router.use('/jobs', createJobsRouter(jobs, usage, moderation));
+  router.use('/usage', createUsageRouter(usage));
+
+  router.use(errorHandler);
+  return router;
+}
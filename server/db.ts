@@ -0,0 +1,118 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type Db = Database.Database;
+
+/**
+ * Schema changes, applied in order. `PRAGMA user_version` records how many have
+ * run, so append new steps to the end and never edit a shipped one.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE books (
+    id TEXT PRIMARY KEY,
+    child_name TEXT NOT NULL,
+    theme TEXT NOT NULL,
+    bg_color TEXT NOT NULL,
+    text_color TEXT NOT NULL,
+    accent_color TEXT NOT NULL,
+    cover_image TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE pages (
+    book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+    page_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    prompt TEXT NOT NULL,
+    image TEXT NOT NULL,
+    PRIMARY KEY (book_id, page_id)
+  );
+  `,
+  `ALTER TABLE pages ADD COLUMN original_image TEXT;`,
+  `ALTER TABLE pages ADD COLUMN quality TEXT;`,
+  `ALTER TABLE books ADD COLUMN cover_design TEXT;`,
+  `ALTER TABLE pages ADD COLUMN caption TEXT;`,
+  `ALTER TABLE books ADD COLUMN character_image TEXT;`,
+  `ALTER TABLE pages ADD COLUMN photo TEXT;`,
+  `ALTER TABLE pages ADD COLUMN activity TEXT;`,
+  `ALTER TABLE pages ADD COLUMN colored_image TEXT;`,
+  `ALTER TABLE pages ADD COLUMN color_key TEXT;`,
+  `
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    theme TEXT NOT NULL,
+    difficulty TEXT,
+    reference TEXT,
+    first_page_reference INTEGER NOT NULL,
+    cover_photo TEXT,
+    cover_state TEXT,
+    cover_image TEXT,
+    meta TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE job_pages (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    page_id INTEGER NOT NULL,
+    scene TEXT,
+    caption TEXT,
+    photo TEXT,
+    state TEXT NOT NULL,
+    prompt TEXT,
+    image TEXT,
+    PRIMARY KEY (job_id, page_id)
+  );
+  `,
+  `
+  CREATE TABLE image_cache (
+    key TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    image TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    hits INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT NOT NULL
+  );
+  CREATE INDEX image_cache_last_used ON image_cache (last_used_at);
+  `,
+  `ALTER TABLE jobs ADD COLUMN fresh INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE job_pages ADD COLUMN cached INTEGER NOT NULL DEFAULT 0;`,
+  `
+  CREATE TABLE usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    model TEXT NOT NULL,
+    ok INTEGER NOT NULL,
+    error TEXT,
+    latency_ms INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX usage_user_created ON usage (user, created_at);
+  CREATE INDEX usage_created ON usage (created_at);
+  `,
+  `ALTER TABLE jobs ADD COLUMN user TEXT NOT NULL DEFAULT 'unknown';`,
+];
+
+export function openDatabase(file = process.env.DATABASE_PATH || 'data/coloring-book.db'): Db {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  const migrate = db.transaction(() => {
+    MIGRATIONS.slice(version).forEach(sql => db.exec(sql));
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  });
+  migrate();
+
+  return db;
+}
@@ -0,0 +1,233 @@
+import type { Difficulty, GeneratedPage, StoryScene } from '../src/types.ts';
+import { HttpError } from './http.ts';
+import { cachedImage, type CacheOptions } from './imageCache.ts';
+import { SafetyBlockedError, type ImageProvider, type InlineImage } from './providers/index.ts';
+
+const CHARACTER_PROMPT = "The main character must look exactly like the character in the reference image: same face, hair, clothes and proportions. Draw them as coloring-page line art, whatever style the reference is in.";
+
+const GHIBLI_PROMPT = "A beautiful Studio Ghibli style illustration based on the provided image. Vibrant colors, soft lighting, whimsical atmosphere, hand-drawn aesthetic, high quality.";
+
+/** Splits a `data:` URL into the fields Gemini expects for `inlineData`. */
+export const parseDataUrl = (dataUrl: string): InlineImage | null => {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUrl);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+/**
+ * Maps a provider failure onto our API's status codes, keeping rate limits and
+ * outages distinct so the client knows they are worth retrying, and safety
+ * refusals distinct so it can suggest something else instead.
+ */
+export const upstreamError = (err: unknown, message: string): HttpError => {
+  // Our own refusals, such as a used-up quota, already say what went wrong.
+  if (err instanceof HttpError) return err;
+  if (err instanceof SafetyBlockedError) {
+    return new HttpError(422, "The drawing helper can't make that picture. Let's try a different idea!", 'safety_blocked');
+  }
+  const status = (err as { status?: unknown })?.status;
+  if (status === 429) return new HttpError(429, 'The AI is busy right now. Please wait a moment and try again.');
+  if (status === 500 || status === 503 || status === 504) {
+    return new HttpError(503, 'The AI service is temporarily unavailable.');
+  }
+  return new HttpError(502, message);
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'preschool';
+
+interface DifficultyProfile {
+  lines: string;
+  detail: string;
+  background: string;
+  objects: string;
+  /** How the story-mode captions should read. */
+  reading: string;
+}
+
+/** How much a page asks of the child, from a toddler's first scribbles to older kids' fine detail. */
+const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  toddler: {
+    lines: 'Very thick, bold black outlines',
+    detail: 'very simple, chunky shapes with no small parts',
+    background: 'plain white background with nothing behind the subject',
+    objects: 'one large object filling most of the page',
+    reading: 'one very short sentence of a few easy words'
+  },
+  preschool: {
+    lines: 'Simple line art, thick black outlines',
+    detail: 'simple shapes with a few details',
+    background: 'white background with at most a simple ground line or sky',
+    objects: 'one main subject and up to two small extras',
+    reading: 'one or two short, simple sentences'
+  },
+  'early-reader': {
+    lines: 'Clean line art, medium black outlines',
+    detail: 'moderate detail such as faces, patterns and textures to color',
+    background: 'a simple scene in the background',
+    objects: 'a few characters or objects interacting',
+    reading: 'two or three simple sentences a beginning reader can sound out'
+  },
+  older: {
+    lines: 'Detailed line art, fine black outlines',
+    detail: 'intricate details, patterns and small areas to color',
+    background: 'a full, detailed background scene',
+    objects: 'several characters and objects',
+    reading: 'two to four lively sentences with some richer words'
+  }
+};
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && Object.hasOwn(DIFFICULTY_PROFILES, value);
+
+const lineArtPrompt = (subject: string, difficulty: Difficulty) => {
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  return `Black and white coloring book page for children. ${profile.lines}, ${profile.detail}, ${profile.objects}, ${profile.background}. No shading, no gradients. Subject: ${subject}. High contrast, easy to color.`;
+};
+
+/** Every one is distinct, so a book of up to this many themed pages never repeats a page. */
+const PAGE_VARIATIONS: ((theme: string) => string)[] = [
+  theme => `A main character ${theme} coloring page`,
+  theme => `A scenic background of ${theme} coloring page`,
+  theme => `An action scene with ${theme} coloring page`,
+  theme => `A close up detail of ${theme} coloring page`,
+  theme => `A group of characters in ${theme} coloring page`,
+  theme => `A funny moment in ${theme} coloring page`,
+  theme => `A cozy indoor scene of ${theme} coloring page`,
+  theme => `A nighttime scene with ${theme}, moon and stars coloring page`,
+  theme => `A birthday party with ${theme} coloring page`,
+  theme => `A vehicle or ride from ${theme} coloring page`,
+  theme => `Animals and pets that belong in ${theme} coloring page`,
+  theme => `A picnic with ${theme} coloring page`,
+  theme => `A rainy day in ${theme} coloring page`,
+  theme => `A snowy winter day in ${theme} coloring page`,
+  theme => `A beach or water scene with ${theme} coloring page`,
+  theme => `A house or castle from ${theme} coloring page`,
+  theme => `Making music with ${theme} coloring page`,
+  theme => `Playing a game or sport with ${theme} coloring page`,
+  theme => `A garden full of flowers with ${theme} coloring page`,
+  theme => `Cooking or baking with ${theme} coloring page`,
+  theme => `Bedtime with ${theme} coloring page`,
+  theme => `A treasure hunt with ${theme} coloring page`,
+  theme => `A parade with ${theme} coloring page`,
+  theme => `Helping a friend in ${theme} coloring page`,
+  theme => `A map of the world of ${theme} coloring page`,
+  theme => `A portrait of the hero of ${theme} waving hello coloring page`,
+  theme => `Flying through the sky with ${theme} coloring page`,
+  theme => `A school or classroom day with ${theme} coloring page`,
+  theme => `A camping trip with ${theme} coloring page`,
+  theme => `A big goodbye celebration with ${theme} coloring page`
+];
+
+export const buildPagePrompt = (pageIndex: number, theme: string, difficulty: Difficulty = DEFAULT_DIFFICULTY): string =>
+  lineArtPrompt(PAGE_VARIATIONS[pageIndex % PAGE_VARIATIONS.length](theme), difficulty);
+
+/** A story scene's illustration, drawn as a coloring page. */
+export const buildScenePrompt = (illustration: string, difficulty: Difficulty = DEFAULT_DIFFICULTY): string =>
+  lineArtPrompt(`${illustration} Coloring page`, difficulty);
+
+const buildPhotoPagePrompt = (difficulty: Difficulty): string => {
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  return `Turn the provided photo into a black and white coloring book page for children. Trace the main people, animals and objects as line art: ${profile.lines.toLowerCase()}, ${profile.detail}, ${profile.background}; no shading, no gradients, no photo texture. Keep them recognizable. High contrast, easy to color.`;
+};
+
+export interface PageRequest extends CacheOptions {
+  pageIndex: number;
+  theme: string;
+  /** Overrides the themed default, e.g. when a user edits a page's prompt. */
+  prompt?: string;
+  /** What to draw for a story-mode page, wrapped in the coloring-page prompt. */
+  scene?: string;
+  /** The book's main character, so it looks the same on every page. */
+  reference?: InlineImage;
+  /** A family photo to trace into line art instead of drawing from the theme. */
+  photo?: InlineImage;
+  difficulty?: Difficulty;
+  signal?: AbortSignal;
+}
+
+export async function generateColoringPage(provider: ImageProvider, request: PageRequest): Promise<GeneratedPage> {
+  const { pageIndex, theme, reference, photo, difficulty = DEFAULT_DIFFICULTY, signal } = request;
+  const prompt = request.prompt ?? (photo
+    ? buildPhotoPagePrompt(difficulty)
+    : request.scene ? buildScenePrompt(request.scene, difficulty) : buildPagePrompt(pageIndex, theme, difficulty));
+  // The saved prompt stays reference-free, so edits and regenerations start from what the user sees.
+  const sent = !photo && reference ? `${prompt} ${CHARACTER_PROMPT}` : prompt;
+  const image = photo ?? reference;
+  const { image: base64, cached } = await cachedImage(
+    request,
+    { method: 'lineArt', model: provider.model, prompt: sent, reference: image, aspectRatio: "1:1" },
+    () => provider.generateLineArt(sent, { aspectRatio: "1:1", reference: image, signal })
+  );
+
+  return {
+    id: pageIndex,
+    base64,
+    prompt,
+    ...(cached ? { cached } : {})
+  };
+}
+
+export const generateGhibliCover = async (
+  provider: ImageProvider,
+  photo: InlineImage,
+  signal?: AbortSignal,
+  cacheOptions: CacheOptions = {}
+): Promise<string> => {
+  const { image } = await cachedImage(
+    cacheOptions,
+    { method: 'stylize', model: provider.model, prompt: GHIBLI_PROMPT, reference: photo, aspectRatio: "1:1" },
+    () => provider.stylizePhoto(photo, GHIBLI_PROMPT, { aspectRatio: "1:1", signal })
+  );
+  return image;
+};
+
+export interface StoryRequest {
+  childName: string;
+  theme: string;
+  sceneCount: number;
+  difficulty?: Difficulty;
+  signal?: AbortSignal;
+}
+
+const storySchema = (sceneCount: number) => ({
+  type: 'object',
+  properties: {
+    scenes: {
+      type: 'array',
+      minItems: sceneCount,
+      maxItems: sceneCount,
+      items: {
+        type: 'object',
+        properties: {
+          caption: { type: 'string', description: 'The words read aloud under the picture.' },
+          illustration: { type: 'string', description: 'What the picture shows, as a single clear moment.' },
+        },
+        required: ['caption', 'illustration'],
+      },
+    },
+  },
+  required: ['scenes'],
+});
+
+export const buildStoryPrompt = ({ childName, theme, sceneCount, difficulty = DEFAULT_DIFFICULTY }: StoryRequest): string =>
+  `Write a gentle picture-book story for a young child in exactly ${sceneCount} scenes. The hero is a child named ${childName}, and the story is about: ${theme}. ` +
+  `Give it a clear beginning, middle and happy ending. For each scene write a caption of ${DIFFICULTY_PROFILES[difficulty].reading}, ` +
+  `and an illustration description of one moment to draw as a coloring page, describing ${childName} the same way in every scene.`;
+
+/** A scene from the model with both its caption and illustration written. */
+const isStoryScene = (value: unknown): value is StoryScene => {
+  const scene = value as { caption?: unknown; illustration?: unknown } | null;
+  return typeof scene?.caption === 'string' && scene.caption.trim() !== '' &&
+    typeof scene.illustration === 'string' && scene.illustration.trim() !== '';
+};
+
+/** Asks the text model for a storyline, one scene per coloring page. */
+export async function writeStory(provider: ImageProvider, request: StoryRequest): Promise<StoryScene[]> {
+  const text = await provider.generateText(buildStoryPrompt(request), { schema: storySchema(request.sceneCount), signal: request.signal });
+
+  const scenes = (JSON.parse(text) as { scenes?: unknown })?.scenes;
+  const valid = Array.isArray(scenes) ? scenes.filter(isStoryScene) : [];
+  if (valid.length < request.sceneCount) {
+    throw new Error(`Story had ${valid.length} usable scenes, expected ${request.sceneCount}`);
+  }
+  return valid.slice(0, request.sceneCount).map(scene => ({ caption: scene.caption.trim(), illustration: scene.illustration.trim() }));
+}
@@ -0,0 +1,66 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ApiErrorCode } from '../src/types.ts';
+
+/** An error that carries the HTTP status the API should respond with. */
+export class HttpError extends Error {
+  status: number;
+  /** Tells the client why, when the status alone doesn't, e.g. a used-up quota versus a busy AI. */
+  code?: ApiErrorCode;
+
+  constructor(status: number, message: string, code?: ApiErrorCode) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** A request body, or part of one, whose fields must each be checked before use. */
+export type Unchecked<T> = { [K in keyof T]?: unknown };
+
+/** The fields of a request body; anything but a plain object has none. */
+export const uncheckedFields = <T>(value: unknown): Unchecked<T> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Unchecked<T> : {};
+
+/** Wraps an async route so rejected promises reach the error handler. */
+export const asyncRoute = (
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler => (req, res, next) => {
+  handler(req, res).catch(next);
+};
+
+/** Aborts when the client goes away, so cancelled generations stop spending model calls. */
+export const clientAbortSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/** Nginx's "client closed request"; nobody is listening, so it only shows up in logs. */
+export const cancelledError = () => new HttpError(499, 'Request cancelled by the client.');
+
+/** What the JSON body parser's own failures mean for the client. */
+const BODY_ERRORS: Record<string, HttpError> = {
+  'entity.parse.failed': new HttpError(400, 'The request body must be a JSON object or array.'),
+  'entity.too.large': new HttpError(413, 'The request is too large.'),
+  'encoding.unsupported': new HttpError(415, 'The request body must be UTF-8 JSON.'),
+};
+
+export const errorHandler = (err: unknown, _req: Request, res: Response, next: NextFunction) => {
+  // A cancelled request has no one left to answer.
+  if (res.destroyed) return;
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const type = (err as { type?: unknown } | null)?.type;
+  if (typeof type === 'string' && Object.hasOwn(BODY_ERRORS, type)) err = BODY_ERRORS[type];
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message, ...(err.code ? { code: err.code } : {}) });
+    return;
+  }
+  console.error('Unhandled API error:', err);
+  res.status(500).json({ error: 'Something went wrong on the server.' });
+};
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import type { Db } from './db.ts';
+import type { InlineImage } from './providers/index.ts';
+
+/** Everything that decides what a model draws, so equal keys mean an interchangeable picture. */
+export interface CacheKeyParts {
+  method: 'lineArt' | 'stylize';
+  model: string;
+  prompt: string;
+  reference?: InlineImage;
+  aspectRatio?: string;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  oldest: string | null;
+  newest: string | null;
+}
+
+/** How one generation uses the cache. */
+export interface CacheOptions {
+  cache?: ImageCache;
+  /** Skip the lookup and draw again; the new picture replaces the cached one. */
+  fresh?: boolean;
+}
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+export const cacheKey = ({ method, model, prompt, reference, aspectRatio }: CacheKeyParts): string =>
+  sha256(JSON.stringify([method, model, prompt, reference ? sha256(reference.data) : null, aspectRatio ?? null]));
+
+export type ImageCache = ReturnType<typeof createImageCache>;
+
+/** Images the model already returned, stored in SQLite by `cacheKey`. */
+export function createImageCache(db: Db) {
+  const statements = {
+    get: db.prepare<[string], { image: string }>('SELECT image FROM image_cache WHERE key = ?'),
+    touch: db.prepare<[string, string]>('UPDATE image_cache SET hits = hits + 1, last_used_at = ? WHERE key = ?'),
+    put: db.prepare(`
+      INSERT INTO image_cache (key, model, prompt, image, size, hits, created_at, last_used_at)
+      VALUES (@key, @model, @prompt, @image, @size, 0, @now, @now)
+      ON CONFLICT (key) DO UPDATE SET image = excluded.image, size = excluded.size, last_used_at = excluded.last_used_at
+    `),
+    stats: db.prepare<[], CacheStats>(`
+      SELECT COUNT(*) AS entries, COALESCE(SUM(size), 0) AS bytes, COALESCE(SUM(hits), 0) AS hits,
+        MIN(last_used_at) AS oldest, MAX(last_used_at) AS newest
+      FROM image_cache
+    `),
+    pruneBefore: db.prepare<[string]>('DELETE FROM image_cache WHERE last_used_at < ?'),
+    byAge: db.prepare<[], { key: string; size: number }>('SELECT key, size FROM image_cache ORDER BY last_used_at DESC'),
+    delete: db.prepare<[string]>('DELETE FROM image_cache WHERE key = ?'),
+  };
+
+  return {
+    /** A cached image as a `data:` URL, counting the hit; null on a miss. */
+    get: (key: string): string | null => {
+      const row = statements.get.get(key);
+      if (row) statements.touch.run(new Date().toISOString(), key);
+      return row?.image ?? null;
+    },
+
+    put: (key: string, { model, prompt, image }: { model: string; prompt: string; image: string }) => {
+      statements.put.run({ key, model, prompt, image, size: Buffer.byteLength(image), now: new Date().toISOString() });
+    },
+
+    stats: (): CacheStats => statements.stats.get()!,
+
+    /** Removes entries not used since `date`; returns how many went. */
+    pruneUnusedSince: (date: Date): number => statements.pruneBefore.run(date.toISOString()).changes,
+
+    /** Removes the least recently used entries until the cache fits in `bytes`; returns how many went. */
+    pruneToSize: db.transaction((bytes: number): number => {
+      let total = 0;
+      let removed = 0;
+      for (const { key, size } of statements.byAge.all()) {
+        total += size;
+        if (total > bytes) removed += statements.delete.run(key).changes;
+      }
+      return removed;
+    }),
+  };
+}
+
+/**
+ * Returns the cached image for `parts` unless `fresh` is set, and otherwise
+ * draws it and stores the result.
+ */
+export async function cachedImage(
+  { cache, fresh }: CacheOptions,
+  parts: CacheKeyParts,
+  draw: () => Promise<string>
+): Promise<{ image: string; cached: boolean }> {
+  if (!cache) return { image: await draw(), cached: false };
+  const key = cacheKey(parts);
+  const hit = fresh ? null : cache.get(key);
+  if (hit) return { image: hit, cached: true };
+  const image = await draw();
+  cache.put(key, { model: parts.model, prompt: parts.prompt, image });
+  return { image, cached: false };
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Job, JobRequest } from '../src/types.ts';
+import { openDatabase, type Db } from './db.ts';
+import { parseDataUrl } from './generation.ts';
+import { createImageCache } from './imageCache.ts';
+import { createJobQueue, type JobQueue } from './jobs.ts';
+import { createMockProvider } from './providers/mock.ts';
+import type { ImageProvider } from './providers/index.ts';
+import { createUsage } from './usage.ts';
+
+const NO_LIMITS = { dailyQuota: null, userQuotas: {}, requestsPerMinute: null, costPerImageUsd: 0 };
+
+const queueFor = (db: Db, provider: ImageProvider) =>
+  createJobQueue(db, provider, createImageCache(db), createUsage(db, NO_LIMITS));
+
+/** A job of one page per scene, each scene naming its page so calls can be told apart. */
+const jobRequest = (scenes: string[], extra: Partial<JobRequest> = {}): JobRequest => ({
+  theme: 'Space cats',
+  pages: scenes.map((scene, id) => ({ id, scene })),
+  fresh: true,
+  ...extra,
+});
+
+/** Polls until `check` passes for the job, failing after a couple of seconds. */
+async function until(queue: JobQueue, id: string, check: (job: Job) => boolean): Promise<Job> {
+  for (let waited = 0; waited < 3000; waited += 10) {
+    const job = queue.getJob(id)!;
+    if (check(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${id} never got there: ${JSON.stringify(queue.getJob(id)?.pages.map(page => page.state))}`);
+}
+
+const statuses = (job: Job) => job.pages.map(page => page.state.status);
+
+describe('job queue', () => {
+  it('keeps finished pages when a job is cancelled mid-run and cancels the rest', async () => {
+    const queue = queueFor(openDatabase(':memory:'), createMockProvider({ latencyMs: 50 }));
+    const { id } = queue.createJob(jobRequest(['zero', 'one', 'two', 'three', 'four']), 'Aaru');
+    const running = await until(queue, id, job =>
+      job.pages.some(page => page.state.status === 'done') && job.pages.some(page => page.state.status === 'running'));
+    const done = running.pages.filter(page => page.state.status === 'done').map(page => page.id);
+
+    assert.ok(queue.cancelJob(id));
+    // Give the aborted requests time to settle, so a late update would show.
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const job = queue.getJob(id)!;
+    assert.equal(job.status, 'cancelled');
+    for (const page of job.pages) {
+      if (done.includes(page.id)) {
+        assert.equal(page.state.status, 'done');
+        assert.ok(page.page?.base64.startsWith('data:image/png;base64,'));
+      } else {
+        assert.equal(page.state.status, 'cancelled', `page ${page.id}`);
+        assert.equal(page.page, undefined);
+      }
+    }
+  });
+
+  it('finishes pages left running when the server stopped', async () => {
+    const db = openDatabase(':memory:');
+    // Stands in for a server that stopped mid-request: its calls never come back.
+    const stalled: ImageProvider = { ...createMockProvider(), generateLineArt: () => new Promise(() => {}) };
+    const before = queueFor(db, stalled);
+    const { id } = before.createJob(jobRequest(['zero', 'one', 'two']), 'Aaru');
+    await until(before, id, job => job.status === 'running' && statuses(job).includes('running'));
+
+    const after = queueFor(db, createMockProvider({ latencyMs: 5 }));
+    const job = await until(after, id, job => job.status === 'done');
+    assert.deepEqual(statuses(job), ['done', 'done', 'done']);
+    assert.ok(job.pages.every(page => page.page));
+  });
+
+  it('draws the first page alone and sends it with every other page as the reference', async () => {
+    const mock = createMockProvider({ latencyMs: 20 });
+    const calls: { page: string; reference?: string }[] = [];
+    const log: string[] = [];
+    const provider: ImageProvider = {
+      ...mock,
+      generateLineArt: async (prompt, options) => {
+        const page = ['alpha', 'bravo', 'charlie'].find(scene => prompt.includes(scene))!;
+        calls.push({ page, reference: options?.reference?.data });
+        log.push(`start ${page}`);
+        const image = await mock.generateLineArt(prompt, options);
+        log.push(`end ${page}`);
+        return image;
+      },
+    };
+    const queue = queueFor(openDatabase(':memory:'), provider);
+    const { id } = queue.createJob(jobRequest(['alpha', 'bravo', 'charlie'], { firstPageReference: true }), 'Aaru');
+    const job = await until(queue, id, job => job.status === 'done');
+
+    assert.deepEqual(statuses(job), ['done', 'done', 'done']);
+    assert.deepEqual(log.slice(0, 2), ['start alpha', 'end alpha']);
+    assert.equal(job.reference, job.pages[0].page!.base64);
+    const reference = parseDataUrl(job.reference!)!.data;
+    assert.equal(calls.find(call => call.page === 'alpha')!.reference, undefined);
+    assert.deepEqual(calls.filter(call => call.page !== 'alpha').map(call => call.reference === reference), [true, true]);
+  });
+
+  it('forgets finished jobs after a week when it starts', async () => {
+    const db = openDatabase(':memory:');
+    const queue = queueFor(db, createMockProvider());
+    const { id: old } = queue.createJob(jobRequest(['zero']), 'Aaru');
+    const { id: recent } = queue.createJob(jobRequest(['zero']), 'Aaru');
+    await until(queue, recent, job => job.status === 'done');
+    db.prepare('UPDATE jobs SET updated_at = ? WHERE id = ?').run(new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(), old);
+
+    const restarted = queueFor(db, createMockProvider());
+    assert.equal(restarted.getJob(old), null);
+    assert.equal(restarted.getJob(recent)?.status, 'done');
+  });
+});
@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import { setMaxListeners } from 'events';
+import { runTasks, withRetry, type RetryOptions, type TaskState } from '../src/scheduler.ts';
+import type { GeneratedPage, Job, JobCover, JobEvent, JobPage, JobRequest, JobStatus } from '../src/types.ts';
+import type { Db } from './db.ts';
+import { generateColoringPage, generateGhibliCover, parseDataUrl, upstreamError } from './generation.ts';
+import { HttpError } from './http.ts';
+import type { ImageCache } from './imageCache.ts';
+import type { ImageProvider } from './providers/index.ts';
+import type { Usage } from './usage.ts';
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  theme: string;
+  difficulty: string | null;
+  reference: string | null;
+  first_page_reference: number;
+  cover_photo: string | null;
+  cover_state: string | null;
+  cover_image: string | null;
+  fresh: number;
+  user: string;
+  meta: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface JobPageRow {
+  page_id: number;
+  scene: string | null;
+  caption: string | null;
+  photo: string | null;
+  state: string;
+  prompt: string | null;
+  image: string | null;
+  cached: number;
+}
+
+/** Pages drawn at once within a job; jobs themselves run one after another. */
+const JOB_CONCURRENCY = 2;
+const TRANSIENT_STATUSES = [429, 503];
+const RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  isRetryable: err => err instanceof HttpError && TRANSIENT_STATUSES.includes(err.status) && err.code !== 'quota_exceeded'
+};
+/** Finished jobs are kept this long for a tab to come back for them. */
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const QUEUED: TaskState = { status: 'queued', attempt: 0 };
+const isFinished = (state: TaskState) => state.status === 'done' || state.status === 'failed';
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+/**
+ * Stores generation jobs and works through them in the background, one job at
+ * a time. Every page's progress is written as it happens, so jobs that were
+ * running when the server stopped carry on from where they were when it starts again.
+ */
+export function createJobQueue(db: Db, provider: ImageProvider, cache: ImageCache, usage: Usage) {
+  const statements = {
+    get: db.prepare<[string], JobRow>('SELECT * FROM jobs WHERE id = ?'),
+    pages: db.prepare<[string], JobPageRow>('SELECT page_id, scene, caption, photo, state, prompt, image, cached FROM job_pages WHERE job_id = ? ORDER BY page_id'),
+    next: db.prepare<[], { id: string }>(`
+      SELECT id FROM jobs WHERE status IN ('queued', 'running')
+      ORDER BY status = 'running' DESC, created_at LIMIT 1
+    `),
+    insert: db.prepare(`
+      INSERT INTO jobs (id, status, theme, difficulty, reference, first_page_reference, cover_photo, cover_state, fresh, user, meta, created_at, updated_at)
+      VALUES (@id, 'queued', @theme, @difficulty, @reference, @firstPageReference, @coverPhoto, @coverState, @fresh, @user, @meta, @now, @now)
+    `),
+    insertPage: db.prepare(`
+      INSERT INTO job_pages (job_id, page_id, scene, caption, photo, state)
+      VALUES (@jobId, @pageId, @scene, @caption, @photo, @state)
+    `),
+    setStatus: db.prepare<[JobStatus, string, string]>('UPDATE jobs SET status = ?, updated_at = ? WHERE id = ?'),
+    setReference: db.prepare<[string, string, string]>('UPDATE jobs SET reference = ?, updated_at = ? WHERE id = ?'),
+    setCover: db.prepare<[string, string | null, string, string]>('UPDATE jobs SET cover_state = ?, cover_image = ?, updated_at = ? WHERE id = ?'),
+    setPage: db.prepare<[string, string | null, string | null, number, string, number]>(
+      'UPDATE job_pages SET state = ?, prompt = ?, image = ?, cached = ? WHERE job_id = ? AND page_id = ?'
+    ),
+    endPages: db.prepare<[string, string]>(`
+      UPDATE job_pages SET state = ? WHERE job_id = ?
+        AND json_extract(state, '$.status') NOT IN ('done', 'failed')
+    `),
+    delete: db.prepare<[string]>('DELETE FROM jobs WHERE id = ?'),
+    prune: db.prepare<[string]>(`DELETE FROM jobs WHERE status IN ('done', 'cancelled') AND updated_at < ?`),
+  };
+
+  const listeners = new Map<string, Set<(event: JobEvent) => void>>();
+  let active: { id: string; controller: AbortController } | null = null;
+
+  const emit = (id: string, event: JobEvent) => listeners.get(id)?.forEach(listener => listener(event));
+  const now = () => new Date().toISOString();
+
+  const toPage = (row: JobPageRow): JobPage => {
+    const state: TaskState = JSON.parse(row.state);
+    return {
+      id: row.page_id,
+      ...(row.scene ? { scene: row.scene } : {}),
+      ...(row.caption ? { caption: row.caption } : {}),
+      ...(row.photo ? { photo: row.photo } : {}),
+      state,
+      ...(row.image ? { page: finishedPage(row.page_id, row.prompt!, row.image, row, row.cached === 1) } : {}),
+    };
+  };
+
+  /** A drawn page, carrying over the story text and photo it was made from. */
+  const finishedPage = (
+    id: number,
+    prompt: string,
+    base64: string,
+    source: { caption?: string | null; photo?: string | null },
+    cached: boolean
+  ): GeneratedPage => ({
+    id,
+    base64,
+    prompt,
+    ...(source.caption ? { caption: source.caption } : {}),
+    ...(source.photo ? { photo: source.photo } : {}),
+    ...(cached ? { cached } : {}),
+  });
+
+  const getJob = (id: string): Job | null => {
+    const row = statements.get.get(id);
+    if (!row) return null;
+    return {
+      id: row.id,
+      status: row.status,
+      theme: row.theme,
+      ...(row.difficulty ? { difficulty: row.difficulty as Job['difficulty'] } : {}),
+      ...(row.reference ? { reference: row.reference } : {}),
+      cover: row.cover_state ? { state: JSON.parse(row.cover_state), ...(row.cover_image ? { image: row.cover_image } : {}) } : null,
+      pages: statements.pages.all(id).map(toPage),
+      meta: JSON.parse(row.meta),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  };
+
+  const setStatus = (id: string, status: JobStatus) => {
+    statements.setStatus.run(status, now(), id);
+    emit(id, { type: 'status', status });
+  };
+
+  const setCover = (id: string, cover: JobCover) => {
+    statements.setCover.run(JSON.stringify(cover.state), cover.image ?? null, now(), id);
+    emit(id, { type: 'cover', cover });
+  };
+
+  const setPage = (id: string, pageId: number, state: TaskState, page?: GeneratedPage) => {
+    statements.setPage.run(JSON.stringify(state), page?.prompt ?? null, page?.base64 ?? null, page?.cached ? 1 : 0, id, pageId);
+    emit(id, { type: 'page', id: pageId, state, ...(page ? { page } : {}) });
+  };
+
+  /** Wraps a model call so its failures carry our status codes and user-facing messages. */
+  const calling = <T>(run: () => Promise<T>, signal: AbortSignal, message: string) => async () => {
+    try {
+      return await run();
+    } catch (err) {
+      if (signal.aborted) throw err;
+      console.error(message, err);
+      throw upstreamError(err, message);
+    }
+  };
+
+  const work = async (id: string) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    // Every page request and retry wait listens for a cancel on the same signal.
+    setMaxListeners(0, signal);
+    active = { id, controller };
+    setStatus(id, 'running');
+    const row = statements.get.get(id)!;
+    const job = getJob(id)!;
+    const retry = { ...RETRY_OPTIONS, signal };
+    const cacheOptions = { cache, fresh: row.fresh === 1 };
+    const model = usage.meter(provider, row.user);
+
+    const coverPhoto = row.cover_photo ? parseDataUrl(row.cover_photo) : null;
+    if (coverPhoto && job.cover && !isFinished(job.cover.state)) {
+      try {
+        const image = await withRetry(
+          calling(() => generateGhibliCover(model, coverPhoto, signal, cacheOptions), signal, 'The AI could not create the cover illustration.'),
+          retry,
+          state => { if (state.status !== 'done') setCover(id, { state }); }
+        );
+        setCover(id, { state: { status: 'done', attempt: 1 }, image });
+      } catch {
+        // The failure is already recorded; pages go ahead without a cover.
+      }
+    }
+
+    let reference = job.reference ? parseDataUrl(job.reference) ?? undefined : undefined;
+    // Finished pages wait here for the scheduler's "done" update, which records them.
+    const drawn = new Map<number, GeneratedPage>();
+    const taskFor = (page: JobPage) => ({
+      key: page.id,
+      run: async () => {
+        const photo = page.photo ? parseDataUrl(page.photo) ?? undefined : undefined;
+        const result = await calling(() => generateColoringPage(model, {
+          pageIndex: page.id,
+          theme: job.theme,
+          scene: page.scene,
+          photo,
+          difficulty: job.difficulty,
+          // A photo page is traced from the photo itself, not the character reference.
+          reference: photo ? undefined : reference,
+          signal,
+          ...cacheOptions
+        }), signal, `The AI could not draw page ${page.id + 1}.`)();
+        const finished = finishedPage(page.id, result.prompt, result.base64, page, result.cached ?? false);
+        drawn.set(page.id, finished);
+        return finished;
+      }
+    });
+    const options = {
+      ...retry,
+      concurrency: JOB_CONCURRENCY,
+      onUpdate: (pageId: number, state: TaskState) => setPage(id, pageId, state, state.status === 'done' ? drawn.get(pageId) : undefined)
+    };
+
+    let pending = job.pages.filter(page => !isFinished(page.state));
+    if (row.first_page_reference && !reference && pending.length > 1 && pending[0].id === job.pages[0].id) {
+      // The first page defines the character, so it has to finish before the others start.
+      const [first] = await runTasks([taskFor(pending[0])], options);
+      if (first.status === 'done') {
+        reference = parseDataUrl(first.value.base64) ?? undefined;
+        statements.setReference.run(first.value.base64, now(), id);
+        emit(id, { type: 'reference', reference: first.value.base64 });
+      }
+      pending = pending.slice(1);
+    }
+    await runTasks(pending.map(taskFor), options);
+
+    active = null;
+    if (!signal.aborted) setStatus(id, 'done');
+  };
+
+  /** Gives every page (and the cover) still waiting or drawing `state`, so the job's end shows in each of them. */
+  const endUnfinished = (id: string, state: TaskState) => {
+    const job = getJob(id);
+    if (!job) return;
+    statements.endPages.run(JSON.stringify(state), id);
+    job.pages.filter(page => !isFinished(page.state)).forEach(page => emit(id, { type: 'page', id: page.id, state }));
+    if (job.cover && !isFinished(job.cover.state)) setCover(id, { state });
+  };
+
+  let working = false;
+  /** Works through queued jobs until there are none left; safe to call at any time. */
+  const pump = async () => {
+    if (working) return;
+    working = true;
+    try {
+      let next: { id: string } | undefined;
+      while ((next = statements.next.get())) {
+        const { id } = next;
+        await work(id).catch(err => {
+          console.error(`Error running job ${id}:`, err);
+          active = null;
+          endUnfinished(id, { status: 'failed', attempt: 0, error: err instanceof Error ? err.message : String(err) });
+          setStatus(id, 'done');
+        });
+      }
+    } finally {
+      working = false;
+    }
+  };
+
+  const cancel = (id: string): boolean => {
+    const row = statements.get.get(id);
+    if (!row) return false;
+    if (row.status === 'done' || row.status === 'cancelled') return true;
+    if (active?.id === id) active.controller.abort();
+    endUnfinished(id, { status: 'cancelled', attempt: 0 });
+    setStatus(id, 'cancelled');
+    return true;
+  };
+
+  statements.prune.run(new Date(Date.now() - JOB_RETENTION_MS).toISOString());
+  // Pick up whatever was running or waiting when the server last stopped.
+  setTimeout(pump, 0);
+
+  return {
+    getJob,
+
+    createJob: db.transaction((request: JobRequest, user: string): Job => {
+      const id = randomUUID();
+      statements.insert.run({
+        id,
+        theme: request.theme,
+        difficulty: request.difficulty ?? null,
+        reference: request.reference ?? null,
+        firstPageReference: request.firstPageReference ? 1 : 0,
+        coverPhoto: request.coverPhoto ?? null,
+        coverState: request.coverPhoto ? JSON.stringify(QUEUED) : null,
+        fresh: request.fresh ? 1 : 0,
+        user,
+        meta: JSON.stringify(request.meta ?? {}),
+        now: now(),
+      });
+      request.pages.forEach(page => statements.insertPage.run({
+        jobId: id,
+        pageId: page.id,
+        scene: page.scene ?? null,
+        caption: page.caption ?? null,
+        photo: page.photo ?? null,
+        state: JSON.stringify(QUEUED),
+      }));
+      setTimeout(pump, 0);
+      return getJob(id)!;
+    }),
+
+    /** Calls `listener` with every change to a job until the returned function is called. */
+    subscribe: (id: string, listener: (event: JobEvent) => void) => {
+      if (!listeners.has(id)) listeners.set(id, new Set());
+      listeners.get(id)!.add(listener);
+      return () => {
+        listeners.get(id)?.delete(listener);
+        if (!listeners.get(id)?.size) listeners.delete(id);
+      };
+    },
+
+    /** Stops a job, keeping the pages it already drew; false if it doesn't exist. */
+    cancelJob: cancel,
+
+    deleteJob: (id: string): boolean => {
+      cancel(id);
+      return statements.delete.run(id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Book, BookContent, GeneratedPage } from '../src/types.ts';
+import { openDatabase } from './db.ts';
+import { HttpError } from './http.ts';
+import { createLibrary } from './library.ts';
+import { parseBookContent } from './routes/books.ts';
+
+const image = (name: string) => `data:image/png;base64,${Buffer.from(name).toString('base64')}`;
+
+const plainPage = (id: number): GeneratedPage => ({ id, prompt: `Page ${id}`, base64: image(`page ${id}`) });
+
+/** A page with every optional field the library stores. */
+const fullPage: GeneratedPage = {
+  id: 7,
+  prompt: 'A dragon at a picnic',
+  base64: image('cleaned'),
+  original: image('original'),
+  quality: { score: 88, passed: true, reasons: [], darkRatio: 0.1, grayRatio: 0.01, regionCount: 12, tinyRegionRatio: 0.2, attempts: 2 },
+  caption: 'The dragon shared its sandwiches.',
+  photo: image('photo'),
+  colorKey: ['#ff0000', '#00ff00'],
+  colored: image('colored'),
+  activity: { kind: 'maze', level: 'hard', seed: 42 },
+};
+
+const book = (pages: GeneratedPage[]): BookContent => ({
+  childName: 'Aaru',
+  theme: 'Dragons',
+  palette: { bgColor: '#fff7ed', textColor: '#1e293b', accentColor: '#f97316' },
+  coverImage: image('cover'),
+  pages,
+  cover: {
+    title: "Aaru's Dragons",
+    subtitle: 'A coloring adventure',
+    font: 'times',
+    frame: 'double',
+    badge: 'Ages 4+',
+    imagePlacement: 'full',
+    dedication: 'For Aaru',
+  },
+  characterImage: image('character'),
+});
+
+const contentOf = ({ id: _id, createdAt: _created, updatedAt: _updated, ...content }: Book): BookContent => content;
+
+describe('library', () => {
+  it('gives back a saved book exactly as it was sent', () => {
+    const library = createLibrary(openDatabase(':memory:'));
+    const sent = book([plainPage(1), fullPage]);
+    const saved = library.createBook(parseBookContent(sent));
+
+    assert.deepEqual(contentOf(library.getBook(saved.id)!), sent);
+    assert.deepEqual(library.listBooks().map(({ id, pageCount, thumbnailUrl }) => ({ id, pageCount, thumbnailUrl })), [
+      { id: saved.id, pageCount: 2, thumbnailUrl: `/api/books/${saved.id}/thumbnail` },
+    ]);
+    assert.equal(library.getThumbnail(saved.id), sent.coverImage);
+  });
+
+  it('replaces pages on update and uses the first page as the thumbnail without a cover', () => {
+    const library = createLibrary(openDatabase(':memory:'));
+    const saved = library.createBook(book([plainPage(1), plainPage(2), fullPage]));
+    const { cover: _cover, characterImage: _character, ...rest } = book([fullPage, plainPage(3)]);
+
+    const updated = library.updateBook(saved.id, { ...rest, coverImage: null })!;
+    assert.deepEqual(updated.pages, [fullPage, plainPage(3)]);
+    assert.equal(updated.coverImage, null);
+    assert.equal(updated.cover, undefined);
+    assert.equal(updated.characterImage, undefined);
+    assert.equal(library.getThumbnail(saved.id), fullPage.base64);
+  });
+
+  it('reports missing books and removes deleted ones with their pages', () => {
+    const db = openDatabase(':memory:');
+    const library = createLibrary(db);
+    assert.equal(library.updateBook('missing', book([])), null);
+
+    const saved = library.createBook(book([fullPage]));
+    assert.ok(library.deleteBook(saved.id));
+    assert.equal(library.getBook(saved.id), null);
+    assert.deepEqual(db.prepare('SELECT COUNT(*) AS count FROM pages').get(), { count: 0 });
+    assert.equal(library.deleteBook(saved.id), false);
+  });
+});
+
+describe('parseBookContent', () => {
+  const rejects = (body: unknown, message: RegExp) =>
+    assert.throws(() => parseBookContent(body), (err: unknown) => err instanceof HttpError && err.status === 400 && message.test(err.message));
+
+  it('accepts a book without its optional fields', () => {
+    const { cover: _cover, characterImage: _character, ...rest } = book([plainPage(1)]);
+    assert.deepEqual(parseBookContent({ ...rest, coverImage: null }), { ...rest, coverImage: null });
+  });
+
+  it('rejects a cover image that is not an image', () => {
+    rejects({ ...book([]), coverImage: 'data:text/html;base64,PHNjcmlwdD4=' }, /coverImage/);
+    rejects({ ...book([]), coverImage: 'https://example.com/cover.png' }, /coverImage/);
+  });
+
+  it('rejects duplicate page ids', () => {
+    rejects(book([plainPage(1), plainPage(1)]), /unique/);
+  });
+
+  it('rejects invalid optional page fields', () => {
+    rejects(book([{ ...plainPage(1), colorKey: ['red'] }]), /colorKey/);
+    rejects(book([{ ...plainPage(1), activity: { kind: 'sudoku', level: 'easy', seed: 1 } } as unknown as GeneratedPage]), /activity/);
+  });
+});
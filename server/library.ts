@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import type { Book, BookContent, BookSummary, GeneratedPage } from '../src/types.ts';
+import type { Db } from './db.ts';
+
+interface BookRow {
+  id: string;
+  child_name: string;
+  theme: string;
+  bg_color: string;
+  text_color: string;
+  accent_color: string;
+  cover_image: string | null;
+  cover_design: string | null;
+  character_image: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SummaryRow extends Omit<BookRow, 'cover_image' | 'cover_design' | 'character_image' | 'bg_color' | 'text_color' | 'accent_color'> {
+  page_count: number;
+  has_thumbnail: number;
+}
+
+interface PageRow {
+  page_id: number;
+  prompt: string;
+  image: string;
+  original_image: string | null;
+  quality: string | null;
+  caption: string | null;
+  photo: string | null;
+  activity: string | null;
+  colored_image: string | null;
+  color_key: string | null;
+}
+
+export type Library = ReturnType<typeof createLibrary>;
+
+/** Stores finished books so a refresh never throws away paid generations. */
+export function createLibrary(db: Db) {
+  const statements = {
+    list: db.prepare<[], SummaryRow>(`
+      SELECT b.id, b.child_name, b.theme, b.created_at, b.updated_at,
+        (SELECT COUNT(*) FROM pages p WHERE p.book_id = b.id) AS page_count,
+        (b.cover_image IS NOT NULL OR EXISTS (SELECT 1 FROM pages p WHERE p.book_id = b.id)) AS has_thumbnail
+      FROM books b
+      ORDER BY b.updated_at DESC
+    `),
+    get: db.prepare<[string], BookRow>('SELECT * FROM books WHERE id = ?'),
+    pages: db.prepare<[string], PageRow>('SELECT page_id, prompt, image, original_image, quality, caption, photo, activity, colored_image, color_key FROM pages WHERE book_id = ? ORDER BY position'),
+    thumbnail: db.prepare<[string, string], { image: string }>(`
+      SELECT cover_image AS image FROM books WHERE id = ? AND cover_image IS NOT NULL
+      UNION ALL
+      SELECT image FROM (SELECT image FROM pages WHERE book_id = ? ORDER BY position LIMIT 1)
+      LIMIT 1
+    `),
+    insert: db.prepare(`
+      INSERT INTO books (id, child_name, theme, bg_color, text_color, accent_color, cover_image, cover_design, character_image, created_at, updated_at)
+      VALUES (@id, @childName, @theme, @bgColor, @textColor, @accentColor, @coverImage, @coverDesign, @characterImage, @now, @now)
+    `),
+    update: db.prepare(`
+      UPDATE books SET child_name = @childName, theme = @theme, bg_color = @bgColor, text_color = @textColor,
+        accent_color = @accentColor, cover_image = @coverImage, cover_design = @coverDesign,
+        character_image = @characterImage, updated_at = @now
+      WHERE id = @id
+    `),
+    deletePages: db.prepare<[string]>('DELETE FROM pages WHERE book_id = ?'),
+    insertPage: db.prepare(`
+      INSERT INTO pages (book_id, page_id, position, prompt, image, original_image, quality, caption, photo, activity, colored_image, color_key)
+      VALUES (@bookId, @pageId, @position, @prompt, @image, @original, @quality, @caption, @photo, @activity, @colored, @colorKey)
+    `),
+    delete: db.prepare<[string]>('DELETE FROM books WHERE id = ?'),
+  };
+
+  const toSummary = (row: SummaryRow): BookSummary => ({
+    id: row.id,
+    childName: row.child_name,
+    theme: row.theme,
+    pageCount: row.page_count,
+    thumbnailUrl: row.has_thumbnail ? `/api/books/${row.id}/thumbnail` : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  const toParams = (id: string, content: BookContent) => ({
+    id,
+    childName: content.childName,
+    theme: content.theme,
+    ...content.palette,
+    coverImage: content.coverImage,
+    coverDesign: content.cover ? JSON.stringify(content.cover) : null,
+    characterImage: content.characterImage ?? null,
+    now: new Date().toISOString(),
+  });
+
+  const writePages = (bookId: string, pages: GeneratedPage[]) => {
+    statements.deletePages.run(bookId);
+    pages.forEach((page, position) => {
+      statements.insertPage.run({
+        bookId,
+        pageId: page.id,
+        position,
+        prompt: page.prompt,
+        image: page.base64,
+        original: page.original ?? null,
+        quality: page.quality ? JSON.stringify(page.quality) : null,
+        caption: page.caption ?? null,
+        photo: page.photo ?? null,
+        activity: page.activity ? JSON.stringify(page.activity) : null,
+        colored: page.colored ?? null,
+        colorKey: page.colorKey ? JSON.stringify(page.colorKey) : null,
+      });
+    });
+  };
+
+  const getBook = (id: string): Book | null => {
+    const row = statements.get.get(id);
+    if (!row) return null;
+    return {
+      id: row.id,
+      childName: row.child_name,
+      theme: row.theme,
+      palette: { bgColor: row.bg_color, textColor: row.text_color, accentColor: row.accent_color },
+      coverImage: row.cover_image,
+      pages: statements.pages.all(id).map(page => ({
+        id: page.page_id,
+        base64: page.image,
+        prompt: page.prompt,
+        ...(page.original_image ? { original: page.original_image } : {}),
+        ...(page.quality ? { quality: JSON.parse(page.quality) } : {}),
+        ...(page.caption ? { caption: page.caption } : {}),
+        ...(page.photo ? { photo: page.photo } : {}),
+        ...(page.activity ? { activity: JSON.parse(page.activity) } : {}),
+        ...(page.colored_image ? { colored: page.colored_image } : {}),
+        ...(page.color_key ? { colorKey: JSON.parse(page.color_key) } : {}),
+      })),
+      ...(row.cover_design ? { cover: JSON.parse(row.cover_design) } : {}),
+      ...(row.character_image ? { characterImage: row.character_image } : {}),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  };
+
+  return {
+    listBooks: (): BookSummary[] => statements.list.all().map(toSummary),
+
+    getBook,
+
+    /** The cover image, or the first page when there is no cover, as a `data:` URL. */
+    getThumbnail: (id: string): string | null => statements.thumbnail.get(id, id)?.image ?? null,
+
+    createBook: db.transaction((content: BookContent): Book => {
+      const id = randomUUID();
+      statements.insert.run(toParams(id, content));
+      writePages(id, content.pages);
+      return getBook(id)!;
+    }),
+
+    /** Replaces a book's contents; returns null if it no longer exists. */
+    updateBook: db.transaction((id: string, content: BookContent): Book | null => {
+      if (statements.update.run(toParams(id, content)).changes === 0) return null;
+      writePages(id, content.pages);
+      return getBook(id);
+    }),
+
+    deleteBook: (id: string): boolean => statements.delete.run(id).changes > 0,
+  };
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HttpError } from './http.ts';
+import { createModeration, moderationListsFromEnv } from './moderation.ts';
+
+describe('findBlocked', () => {
+  const { findBlocked } = createModeration();
+
+  it('passes ordinary themes', () => {
+    for (const theme of ['Unicorns in space', 'A dragon having a birthday picnic', 'Skiing penguins', 'Pumpkins']) {
+      assert.equal(findBlocked(theme), null, theme);
+    }
+  });
+
+  it('finds blocked words whatever their case, accents or punctuation', () => {
+    assert.equal(findBlocked('Pirates with a GUN!'), 'gun');
+    assert.equal(findBlocked('the bloody-pirate'), 'bloody');
+    assert.equal(findBlocked('Nüde beach'), 'nude');
+  });
+
+  it('counts plurals as the word', () => {
+    assert.equal(findBlocked('knives and guns'), 'gun');
+    assert.equal(findBlocked('two bombs'), 'bomb');
+  });
+
+  it('matches whole words and phrases only', () => {
+    assert.equal(findBlocked('Gunther the skilled dragon'), null);
+    assert.equal(findBlocked('a bloodhound puppy'), null);
+    assert.equal(findBlocked('a dead body'), 'dead body');
+    assert.equal(findBlocked('a dead flower and a body of water'), null);
+  });
+
+  it('allows phrases on the allow list, and their plurals', () => {
+    assert.equal(findBlocked('Summer water gun fight'), null);
+    assert.equal(findBlocked('water guns and bath bombs'), null);
+    assert.equal(findBlocked('a naked mole rat'), null);
+  });
+
+  it('still finds a blocked word next to an allowed phrase', () => {
+    assert.equal(findBlocked('a water gun gun'), 'gun');
+    assert.equal(findBlocked('root beer and beer'), 'beer');
+  });
+});
+
+describe('screen', () => {
+  const moderation = createModeration({ blocked: ['zombie'], allowed: [] });
+
+  it('ignores fields that are fine or not text', () => {
+    moderation.screen({ theme: 'Friendly ghosts', prompt: undefined, pageIndex: 3 });
+  });
+
+  it('turns down a request with a child-friendly content_blocked error', () => {
+    assert.throws(
+      () => moderation.screen({ theme: 'Friendly ghosts', prompt: 'Zombies at school' }),
+      (err: unknown) => err instanceof HttpError && err.status === 422 && err.code === 'content_blocked' && !/zombie/i.test(err.message)
+    );
+  });
+});
+
+describe('moderationListsFromEnv', () => {
+  it('extends the built-in lists', () => {
+    const { findBlocked } = createModeration(moderationListsFromEnv({ BLOCKED_TERMS: 'Clown, scary mask', ALLOWED_TERMS: 'nerf gun' }));
+    assert.equal(findBlocked('a circus clown'), 'clown');
+    assert.equal(findBlocked('a SCARY mask'), 'scary mask');
+    assert.equal(findBlocked('nerf guns'), null);
+    assert.equal(findBlocked('a knife'), 'knife');
+  });
+});
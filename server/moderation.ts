@@ -0,0 +1,70 @@
+import { HttpError } from './http.ts';
+
+export interface ModerationLists {
+  /** Words and phrases a children's coloring book should never be asked to draw. */
+  blocked: string[];
+  /** Phrases that are fine even though they contain a blocked word, e.g. "water gun". */
+  allowed: string[];
+}
+
+/** Deliberately short: the model's own safety filters catch the rest. */
+const DEFAULT_BLOCKED = [
+  'kill', 'killing', 'murder', 'blood', 'bloody', 'gore', 'corpse', 'dead body', 'torture', 'suicide', 'self harm',
+  'gun', 'rifle', 'pistol', 'knife', 'weapon', 'bomb', 'terrorist', 'nazi',
+  'drug', 'cocaine', 'heroin', 'marijuana', 'beer', 'alcohol', 'drunk', 'cigarette', 'vape',
+  'sex', 'sexy', 'nude', 'naked', 'porn', 'lingerie',
+  'fuck', 'shit', 'bitch', 'asshole',
+];
+
+const DEFAULT_ALLOWED = [
+  'water gun', 'squirt gun', 'glue gun', 'water pistol', 'butter knife', 'bath bomb', 'root beer', 'naked mole rat',
+];
+
+/** Lowercase words without accents or punctuation, padded so phrases match whole words only. */
+const normalize = (text: string) =>
+  ` ${text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+/** A term and its plurals, which count as the term. */
+const forms = (term: string) => [term, `${term}s`, `${term}es`];
+
+const envList = (value: string | undefined) =>
+  (value ?? '').split(',').map(term => normalize(term).trim()).filter(Boolean);
+
+/** Adds `BLOCKED_TERMS` and `ALLOWED_TERMS` (comma-separated) to the defaults. */
+export const moderationListsFromEnv = (env = process.env): ModerationLists => ({
+  blocked: [...DEFAULT_BLOCKED, ...envList(env.BLOCKED_TERMS)],
+  allowed: [...DEFAULT_ALLOWED, ...envList(env.ALLOWED_TERMS)],
+});
+
+const BLOCKED_MESSAGE = "Let's pick something else to draw! That idea isn't one for a children's coloring book.";
+
+export type Moderation = ReturnType<typeof createModeration>;
+
+/** Screens the free text that ends up in prompts before any model call is paid for. */
+export function createModeration(lists: ModerationLists = moderationListsFromEnv()) {
+  const blocked = lists.blocked.map(term => normalize(term).trim());
+  const allowed = lists.allowed.map(term => normalize(term).trim());
+
+  /** The blocked term `text` contains, or null when it is fine. */
+  const findBlocked = (text: string): string | null => {
+    let words = normalize(text);
+    // Normalized terms are only letters, digits and spaces, so they are safe inside a pattern.
+    for (const phrase of allowed.flatMap(forms)) words = words.replace(new RegExp(` ${phrase}(?= )`, 'gu'), '');
+    return blocked.find(term => forms(term).some(form => words.includes(` ${form} `))) ?? null;
+  };
+
+  return {
+    findBlocked,
+
+    /** Throws a child-friendly 422 when any of `fields` contains a blocked term. */
+    screen: (fields: Record<string, unknown>) => {
+      for (const [field, value] of Object.entries(fields)) {
+        const term = typeof value === 'string' ? findBlocked(value) : null;
+        if (term) {
+          console.warn(`Moderation blocked ${field} containing "${term}".`);
+          throw new HttpError(422, BLOCKED_MESSAGE, 'content_blocked');
+        }
+      }
+    },
+  };
+}
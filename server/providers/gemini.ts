@@ -0,0 +1,79 @@
+import { GoogleGenAI, type GenerateContentResponse, type Part } from '@google/genai';
+import { SafetyBlockedError, type ImageProvider, type ImageRequestOptions, type InlineImage, type TextRequestOptions } from './types.ts';
+
+export const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image";
+export const GEMINI_TEXT_MODEL = "gemini-2.5-flash";
+
+/** Finish reasons meaning the answer was stopped by a filter rather than cut short. */
+const SAFETY_FINISH_REASONS = new Set<string>(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT']);
+
+/** Throws when Gemini refused, whether it blocked the prompt outright or stopped its answer. */
+const checkSafety = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) throw new SafetyBlockedError(finishReason);
+};
+
+const extractImage = (response: GenerateContentResponse): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+  return '';
+};
+
+export function createGeminiProvider(apiKey: string | undefined): ImageProvider {
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set. Add it to .env.local, or set IMAGE_PROVIDER=mock to run offline.');
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (parts: Part[], options: ImageRequestOptions = {}) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: { parts },
+      config: {
+        abortSignal: options.signal,
+        imageConfig: {
+          aspectRatio: options.aspectRatio ?? "1:1",
+        },
+      },
+    });
+
+    const base64 = extractImage(response);
+    if (!base64) {
+      checkSafety(response);
+      throw new Error("No image data received from AI");
+    }
+    return base64;
+  };
+
+  const generateText = async (prompt: string, options: TextRequestOptions = {}) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: options.signal,
+        ...(options.schema ? { responseMimeType: 'application/json', responseJsonSchema: options.schema } : {}),
+      },
+    });
+
+    if (!response.text) {
+      checkSafety(response);
+      throw new Error("No text received from AI");
+    }
+    return response.text;
+  };
+
+  return {
+    name: 'gemini',
+    model: GEMINI_IMAGE_MODEL,
+    textModel: GEMINI_TEXT_MODEL,
+    generateLineArt: (prompt, options) =>
+      generate(options?.reference ? [{ inlineData: options.reference }, { text: prompt }] : [{ text: prompt }], options),
+    stylizePhoto: (photo: InlineImage, prompt, options) => generate([{ inlineData: photo }, { text: prompt }], options),
+    generateText,
+  };
+}
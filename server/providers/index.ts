@@ -0,0 +1,26 @@
+import { createGeminiProvider } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+import type { ImageProvider } from './types.ts';
+
+export { SafetyBlockedError } from './types.ts';
+export type { ImageProvider, ImageRequestOptions, InlineImage, TextRequestOptions } from './types.ts';
+
+const PROVIDERS: Record<string, () => ImageProvider> = {
+  gemini: () => createGeminiProvider(process.env.GEMINI_API_KEY),
+  mock: () => createMockProvider({
+    failureRate: Number(process.env.MOCK_FAILURE_RATE) || 0,
+    latencyMs: Number(process.env.MOCK_LATENCY_MS) || 0,
+    blockedTerm: process.env.MOCK_BLOCKED_TERM || undefined,
+  }),
+};
+
+/** Builds the provider named by `IMAGE_PROVIDER` (defaults to Gemini). */
+export function createImageProvider(name = process.env.IMAGE_PROVIDER || 'gemini'): ImageProvider {
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown IMAGE_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  const provider = factory();
+  console.log(`Image provider: ${provider.name} (${provider.model}, text: ${provider.textModel})`);
+  return provider;
+}
@@ -0,0 +1,192 @@
+import { encodePng } from './png.ts';
+import { SafetyBlockedError, type ImageProvider, type ImageRequestOptions, type TextRequestOptions } from './types.ts';
+
+const LONG_SIDE = 512;
+
+/** FNV-1a, so the same prompt always yields the same picture. */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32: a tiny seeded PRNG returning floats in [0, 1). */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const dimensions = (aspectRatio = '1:1'): [number, number] => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return [LONG_SIDE, LONG_SIDE];
+  return w >= h
+    ? [LONG_SIDE, Math.round((LONG_SIDE * h) / w)]
+    : [Math.round((LONG_SIDE * w) / h), LONG_SIDE];
+};
+
+/** Signed distance from a point to a shape's outline; the outline is where it is 0. */
+type Outline = (x: number, y: number) => number;
+
+const circle = (cx: number, cy: number, r: number): Outline =>
+  (x, y) => Math.hypot(x - cx, y - cy) - r;
+
+const rect = (cx: number, cy: number, hw: number, hh: number): Outline => (x, y) => {
+  const dx = Math.abs(x - cx) - hw;
+  const dy = Math.abs(y - cy) - hh;
+  return Math.hypot(Math.max(dx, 0), Math.max(dy, 0)) + Math.min(Math.max(dx, dy), 0);
+};
+
+const segment = (x1: number, y1: number, x2: number, y2: number): Outline => (x, y) => {
+  const vx = x2 - x1;
+  const vy = y2 - y1;
+  const t = Math.max(0, Math.min(1, ((x - x1) * vx + (y - y1) * vy) / (vx * vx + vy * vy)));
+  return Math.hypot(x - (x1 + t * vx), y - (y1 + t * vy));
+};
+
+const toDataUrl = (png: Buffer) => `data:image/png;base64,${png.toString('base64')}`;
+
+/** Thick-outlined shapes on white: a stand-in coloring page that prints and traces like the real thing. */
+function drawLineArt(seed: string, aspectRatio?: string): string {
+  const [width, height] = dimensions(aspectRatio);
+  const random = seededRandom(hashString(seed));
+  const size = Math.min(width, height);
+  const stroke = size / 90;
+
+  const outlines: Outline[] = [
+    rect(width / 2, height / 2, width / 2 - size * 0.06, height / 2 - size * 0.06),
+    segment(0, height * 0.78, width, height * (0.72 + random() * 0.1)),
+  ];
+  const shapeCount = 4 + Math.floor(random() * 4);
+  for (let i = 0; i < shapeCount; i++) {
+    const cx = width * (0.2 + random() * 0.6);
+    const cy = height * (0.2 + random() * 0.5);
+    const radius = size * (0.06 + random() * 0.12);
+    outlines.push(random() < 0.5 ? circle(cx, cy, radius) : rect(cx, cy, radius, radius * (0.5 + random())));
+  }
+
+  const pixels = new Uint8Array(width * height).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (outlines.some(outline => Math.abs(outline(x, y)) < stroke)) {
+        pixels[y * width + x] = 0;
+      }
+    }
+  }
+  return toDataUrl(encodePng(width, height, 1, pixels));
+}
+
+/** Soft overlapping color blobs: a stand-in for a painted illustration. */
+function drawPainting(seed: string, aspectRatio?: string): string {
+  const [width, height] = dimensions(aspectRatio);
+  const random = seededRandom(hashString(seed));
+  const blobs = Array.from({ length: 6 }, () => ({
+    x: random() * width,
+    y: random() * height,
+    r: Math.min(width, height) * (0.2 + random() * 0.3),
+    color: [random() * 255, random() * 255, random() * 255],
+  }));
+
+  const pixels = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = [250, 244, 230];
+      for (const blob of blobs) {
+        const weight = Math.max(0, 1 - Math.hypot(x - blob.x, y - blob.y) / blob.r) * 0.7;
+        for (let c = 0; c < 3; c++) color[c] += (blob.color[c] - color[c]) * weight;
+      }
+      pixels.set(color.map(Math.round), (y * width + x) * 3);
+    }
+  }
+  return toDataUrl(encodePng(width, height, 3, pixels));
+}
+
+const WORDS = ['sunny', 'meadow', 'friendly', 'rocket', 'giggling', 'castle', 'puppy', 'rainbow', 'picnic', 'dragon', 'garden', 'treasure'];
+
+const sentence = (random: () => number, label: string) =>
+  `Mock ${label}: ${Array.from({ length: 6 }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' ')}.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const numberOr = (value: unknown, fallback: number) => typeof value === 'number' ? value : fallback;
+
+/** Makes up a value matching the parts of JSON Schema our prompts use. */
+function sampleSchema(schema: unknown, random: () => number, label = 'text'): unknown {
+  const node = isRecord(schema) ? schema : {};
+  switch (node.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(isRecord(node.properties) ? node.properties : {}).map(([key, value]) => [key, sampleSchema(value, random, key)]));
+    case 'array': {
+      const min = numberOr(node.minItems, 1);
+      const length = Math.max(min, Math.min(numberOr(node.maxItems, min), 3));
+      return Array.from({ length }, (_, i) => sampleSchema(node.items, random, `${label} ${i + 1}`));
+    }
+    case 'integer':
+    case 'number':
+      return Math.floor(random() * 10);
+    case 'boolean':
+      return random() < 0.5;
+    default:
+      return sentence(random, label);
+  }
+}
+
+interface MockOptions {
+  /** Fraction (0-1) of requests rejected with a simulated 503. */
+  failureRate?: number;
+  /** Artificial delay per request, so progress and cancellation can be exercised. */
+  latencyMs?: number;
+  /** Prompts containing this word are refused as if by a safety filter. */
+  blockedTerm?: string;
+}
+
+/** Behaves like a slow, occasionally overloaded upstream with a safety filter. */
+const simulateUpstream = async ({ failureRate = 0, latencyMs = 0, blockedTerm }: MockOptions, prompt: string, signal?: AbortSignal) => {
+  if (latencyMs > 0) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+  signal?.throwIfAborted();
+  if (blockedTerm && prompt.toLowerCase().includes(blockedTerm.toLowerCase())) {
+    throw new SafetyBlockedError('MOCK_BLOCKED_TERM');
+  }
+  if (Math.random() < failureRate) {
+    throw Object.assign(new Error('Mock provider simulated an outage'), { status: 503 });
+  }
+};
+
+/**
+ * An offline provider that never touches the network. Output depends only on
+ * the inputs, so the same prompt always produces the same placeholder.
+ */
+export function createMockProvider(mockOptions: MockOptions = {}): ImageProvider {
+  return {
+    name: 'mock',
+    model: 'mock-line-art',
+    textModel: 'mock-text',
+    generateLineArt: async (prompt: string, options: ImageRequestOptions = {}) => {
+      await simulateUpstream(mockOptions, prompt, options.signal);
+      const seed = options.reference ? `${prompt}:${options.reference.data.slice(0, 4096)}` : prompt;
+      return drawLineArt(seed, options.aspectRatio);
+    },
+    stylizePhoto: async (photo, prompt, options = {}) => {
+      await simulateUpstream(mockOptions, prompt, options.signal);
+      return drawPainting(`${prompt}:${photo.data.slice(0, 4096)}`, options.aspectRatio);
+    },
+    generateText: async (prompt: string, options: TextRequestOptions = {}) => {
+      await simulateUpstream(mockOptions, prompt, options.signal);
+      const random = seededRandom(hashString(prompt));
+      return options.schema ? JSON.stringify(sampleSchema(options.schema, random)) : sentence(random, 'reply');
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/** Raw image bytes in the shape Gemini expects for `inlineData`. */
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface ImageRequestOptions {
+  aspectRatio?: string;
+  /** A picture of the main character to keep consistent, sent alongside the prompt. */
+  reference?: InlineImage;
+  /** Aborts the upstream request, e.g. when the browser cancels a generation. */
+  signal?: AbortSignal;
+}
+
+export interface TextRequestOptions {
+  /** JSON Schema the reply must follow; the reply is then a JSON document. */
+  schema?: object;
+  signal?: AbortSignal;
+}
+
+/** The model refused a request on safety grounds, rather than failing to answer it. */
+export class SafetyBlockedError extends Error {
+  /** The provider's own reason, e.g. Gemini's finish reason, for the logs. */
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Refused by the model's safety filters (${reason})`);
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * A backend that can draw coloring pages, stylize photos and write stories.
+ * Image methods resolve to a `data:` URL so callers can hand it straight to the browser.
+ */
+export interface ImageProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly textModel: string;
+  generateLineArt(prompt: string, options?: ImageRequestOptions): Promise<string>;
+  stylizePhoto(photo: InlineImage, prompt: string, options?: ImageRequestOptions): Promise<string>;
+  generateText(prompt: string, options?: TextRequestOptions): Promise<string>;
+}
@@ -0,0 +1,174 @@
+import express from 'express';
+import type { QualityReport } from '../../src/quality.ts';
+import type {
+  Activity, ActivityKind, ActivityLevel, BookContent, CoverDesign, CoverFont, CoverFrame, CoverImagePlacement, CoverPalette, GeneratedPage
+} from '../../src/types.ts';
+import { parseDataUrl } from '../generation.ts';
+import { HttpError, asyncRoute, uncheckedFields } from '../http.ts';
+import type { Library } from '../library.ts';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isColor = (value: unknown): value is string => isString(value) && /^#[0-9a-f]{6}$/i.test(value);
+
+const isImage = (value: unknown): value is string =>
+  isString(value) && parseDataUrl(value)?.mimeType.startsWith('image/') === true;
+
+/** Thumbnails are served with one of these types only, so a stored page can never be sent as HTML. */
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isOneOf = <T extends string>(choices: readonly T[], value: unknown): value is T =>
+  choices.some(choice => choice === value);
+
+const ACTIVITY_KINDS: ActivityKind[] = ['tracing', 'maze', 'dot-to-dot', 'counting'];
+const ACTIVITY_LEVELS: ActivityLevel[] = ['easy', 'medium', 'hard'];
+const MAX_COLOR_KEY = 12;
+
+/** Only the score and reasons are relied on; the rest of a report is kept as sent. */
+const isQualityReport = (value: unknown): value is QualityReport => {
+  const quality = uncheckedFields<QualityReport>(value);
+  return typeof quality.score === 'number' && Array.isArray(quality.reasons);
+};
+
+const isActivity = (value: unknown): value is Activity => {
+  const activity = uncheckedFields<Activity>(value);
+  return isOneOf(ACTIVITY_KINDS, activity.kind) && isOneOf(ACTIVITY_LEVELS, activity.level) && isInteger(activity.seed);
+};
+
+const isColorKey = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.length <= MAX_COLOR_KEY && value.every(isColor);
+
+/** An optional field: undefined when missing, otherwise it must pass `check`. */
+const optional = <T>(value: unknown, check: (value: unknown) => value is T, message: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!check(value)) throw new HttpError(400, message);
+  return value;
+};
+
+const parsePage = (value: unknown, index: number): GeneratedPage => {
+  const page = uncheckedFields<GeneratedPage>(value);
+  const label = `Page ${index + 1}`;
+  if (!isInteger(page.id) || !isString(page.prompt) || !isImage(page.base64)) {
+    throw new HttpError(400, `${label} must have an integer id, a prompt and an image data URL.`);
+  }
+  const original = optional(page.original, isImage, `${label} has an invalid original image.`);
+  const quality = optional(page.quality, isQualityReport, `${label} has an invalid quality report.`);
+  const caption = optional(page.caption, isString, `${label} has an invalid caption.`);
+  const photo = optional(page.photo, isImage, `${label} has an invalid photo.`);
+  const colorKey = optional(page.colorKey, isColorKey, `${label} colorKey must list 1 to ${MAX_COLOR_KEY} #rrggbb colors.`);
+  const colored = optional(page.colored, isImage, `${label} has an invalid colored image.`);
+  const activity = optional(page.activity, isActivity, `${label} has an invalid activity.`);
+  return {
+    id: page.id,
+    prompt: page.prompt,
+    base64: page.base64,
+    ...(original ? { original } : {}),
+    ...(quality ? { quality } : {}),
+    ...(caption ? { caption } : {}),
+    ...(photo ? { photo } : {}),
+    ...(colorKey ? { colorKey } : {}),
+    ...(colored ? { colored } : {}),
+    ...(activity ? { activity: { kind: activity.kind, level: activity.level, seed: activity.seed } } : {}),
+  };
+};
+
+const COVER_FONTS: CoverFont[] = ['helvetica', 'times', 'courier'];
+const COVER_FRAMES: CoverFrame[] = ['none', 'simple', 'double', 'dashed', 'corners'];
+const COVER_IMAGE_PLACEMENTS: CoverImagePlacement[] = ['below', 'above', 'full', 'none'];
+const MAX_COVER_TEXT = 500;
+
+const isCoverText = (value: unknown): value is string => isString(value) && value.length <= MAX_COVER_TEXT;
+
+const parseCoverDesign = (value: unknown): CoverDesign => {
+  const cover = uncheckedFields<CoverDesign>(value);
+  if (!isCoverText(cover.title) || !isCoverText(cover.subtitle) || !isCoverText(cover.badge) || !isCoverText(cover.dedication)) {
+    throw new HttpError(400, `cover title, subtitle, badge and dedication must be strings of at most ${MAX_COVER_TEXT} characters.`);
+  }
+  if (!isOneOf(COVER_FONTS, cover.font)) {
+    throw new HttpError(400, `cover font must be one of: ${COVER_FONTS.join(', ')}.`);
+  }
+  if (!isOneOf(COVER_FRAMES, cover.frame)) {
+    throw new HttpError(400, `cover frame must be one of: ${COVER_FRAMES.join(', ')}.`);
+  }
+  if (!isOneOf(COVER_IMAGE_PLACEMENTS, cover.imagePlacement)) {
+    throw new HttpError(400, `cover imagePlacement must be one of: ${COVER_IMAGE_PLACEMENTS.join(', ')}.`);
+  }
+  return {
+    title: cover.title,
+    subtitle: cover.subtitle,
+    font: cover.font,
+    frame: cover.frame,
+    badge: cover.badge,
+    imagePlacement: cover.imagePlacement,
+    dedication: cover.dedication,
+  };
+};
+
+/** Validates a request body into the fields the library stores. */
+export const parseBookContent = (body: unknown): BookContent => {
+  const book = uncheckedFields<BookContent>(body);
+  if (!isString(book.childName) || !book.childName.trim() || !isString(book.theme) || !book.theme.trim()) {
+    throw new HttpError(400, 'childName and theme are required.');
+  }
+  const palette = uncheckedFields<CoverPalette>(book.palette);
+  if (!isColor(palette.bgColor) || !isColor(palette.textColor) || !isColor(palette.accentColor)) {
+    throw new HttpError(400, 'palette must contain bgColor, textColor and accentColor as #rrggbb.');
+  }
+  const coverImage = optional(book.coverImage ?? undefined, isImage, 'coverImage must be an image data URL.');
+  const characterImage = optional(book.characterImage ?? undefined, isImage, 'characterImage must be an image data URL.');
+  if (!Array.isArray(book.pages)) {
+    throw new HttpError(400, 'pages must be an array.');
+  }
+  const pages = book.pages.map(parsePage);
+  if (new Set(pages.map(page => page.id)).size !== pages.length) {
+    throw new HttpError(400, 'Page ids must be unique.');
+  }
+
+  return {
+    childName: book.childName.trim(),
+    theme: book.theme.trim(),
+    palette: { bgColor: palette.bgColor, textColor: palette.textColor, accentColor: palette.accentColor },
+    coverImage: coverImage ?? null,
+    pages,
+    ...(book.cover != null ? { cover: parseCoverDesign(book.cover) } : {}),
+    ...(characterImage ? { characterImage } : {}),
+  };
+};
+
+export function createBooksRouter(library: Library) {
+  const router = express.Router();
+
+  router.get('/', (_req, res) => {
+    res.json(library.listBooks());
+  });
+
+  router.post('/', (req, res) => {
+    res.status(201).json(library.createBook(parseBookContent(req.body)));
+  });
+
+  router.get('/:id', (req, res) => {
+    const book = library.getBook(req.params.id);
+    if (!book) throw new HttpError(404, 'Book not found.');
+    res.json(book);
+  });
+
+  router.get('/:id/thumbnail', (req, res) => {
+    const image = parseDataUrl(library.getThumbnail(req.params.id) ?? '');
+    if (!image) throw new HttpError(404, 'This book has no pictures yet.');
+    if (!THUMBNAIL_TYPES.includes(image.mimeType)) throw new HttpError(415, "This book's cover can't be shown as a thumbnail.");
+    res.type(image.mimeType).set('Cache-Control', 'no-cache').send(Buffer.from(image.data, 'base64'));
+  });
+
+  router.put('/:id', (req, res) => {
+    const book = library.updateBook(req.params.id, parseBookContent(req.body));
+    if (!book) throw new HttpError(404, 'Book not found.');
+    res.json(book);
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!library.deleteBook(req.params.id)) throw new HttpError(404, 'Book not found.');
+    res.status(204).end();
+  });
+
+  return router;
+}
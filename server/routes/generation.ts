@@ -0,0 +1,118 @@
+import express from 'express';
+import type { Difficulty } from '../../src/types.ts';
+import { generateColoringPage, generateGhibliCover, isDifficulty, parseDataUrl, upstreamError, writeStory } from '../generation.ts';
+import { HttpError, asyncRoute, cancelledError, clientAbortSignal, uncheckedFields } from '../http.ts';
+import type { ImageCache } from '../imageCache.ts';
+import type { Moderation } from '../moderation.ts';
+import type { ImageProvider, InlineImage } from '../providers/index.ts';
+import { requestUser, type Usage } from '../usage.ts';
+
+export const MAX_PROMPT_LENGTH = 2000;
+const MAX_STORY_SCENES = 30;
+
+/** An optional image data URL field of a request body. */
+export const parseImageField = (body: unknown, field: string): InlineImage | undefined => {
+  const value = uncheckedFields<Record<string, unknown>>(body)[field];
+  if (value === undefined) return undefined;
+  const image = typeof value === 'string' ? parseDataUrl(value) : null;
+  if (!image || !image.mimeType.startsWith('image/')) {
+    throw new HttpError(400, `${field} must be an image data URL.`);
+  }
+  return image;
+};
+
+/** The optional age band of a request body. */
+export const parseDifficulty = (body: unknown): Difficulty | undefined => {
+  const { difficulty } = uncheckedFields<{ difficulty: Difficulty }>(body);
+  if (difficulty === undefined) return undefined;
+  if (!isDifficulty(difficulty)) {
+    throw new HttpError(400, 'difficulty must be toddler, preschool, early-reader or older.');
+  }
+  return difficulty;
+};
+
+/** Whether a request skips the image cache; reusing cached pictures is the default. */
+export const parseFresh = (body: unknown): boolean => {
+  const { fresh } = uncheckedFields<{ fresh: boolean }>(body);
+  if (fresh === undefined) return false;
+  if (typeof fresh !== 'boolean') {
+    throw new HttpError(400, 'fresh must be true or false.');
+  }
+  return fresh;
+};
+
+export function createGenerationRouter(provider: ImageProvider, cache: ImageCache, usage: Usage, moderation: Moderation) {
+  const router = express.Router();
+
+  router.post('/pages', usage.rateLimit, asyncRoute(async (req, res) => {
+    const { pageIndex, theme, prompt, scene } = req.body ?? {};
+    const reference = parseImageField(req.body, 'reference');
+    const photo = parseImageField(req.body, 'photo');
+    const difficulty = parseDifficulty(req.body);
+    const fresh = parseFresh(req.body);
+    for (const [field, value] of Object.entries({ prompt, scene })) {
+      if (value !== undefined && (typeof value !== 'string' || !value.trim() || value.length > MAX_PROMPT_LENGTH)) {
+        throw new HttpError(400, `${field} must be non-empty text of at most ${MAX_PROMPT_LENGTH} characters.`);
+      }
+    }
+    if (theme !== undefined && (typeof theme !== 'string' || theme.length > MAX_PROMPT_LENGTH)) {
+      throw new HttpError(400, `theme must be text of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (prompt === undefined && scene === undefined && !photo && !theme?.trim()) {
+      throw new HttpError(400, 'A theme, scene, photo or prompt is required.');
+    }
+    if (!Number.isInteger(pageIndex) || pageIndex < 0) {
+      throw new HttpError(400, 'pageIndex must be a non-negative integer.');
+    }
+    moderation.screen({ theme, prompt, scene });
+
+    const signal = clientAbortSignal(res);
+    try {
+      res.json(await generateColoringPage(usage.meter(provider, requestUser(req)), { pageIndex, theme: theme?.trim() ?? '', prompt: prompt?.trim(), scene: scene?.trim(), reference, photo, difficulty, signal, cache, fresh }));
+    } catch (err) {
+      if (signal.aborted) throw cancelledError();
+      console.error(`Error generating page ${pageIndex}:`, err);
+      throw upstreamError(err, 'The AI could not draw this page.');
+    }
+  }));
+
+  router.post('/cover', usage.rateLimit, asyncRoute(async (req, res) => {
+    const photo = typeof req.body?.photo === 'string' ? parseDataUrl(req.body.photo) : null;
+    if (!photo || !photo.mimeType.startsWith('image/')) {
+      throw new HttpError(400, 'photo must be an image data URL.');
+    }
+    const fresh = parseFresh(req.body);
+
+    const signal = clientAbortSignal(res);
+    try {
+      res.json({ base64: await generateGhibliCover(usage.meter(provider, requestUser(req)), photo, signal, { cache, fresh }) });
+    } catch (err) {
+      if (signal.aborted) throw cancelledError();
+      console.error("Error generating Ghibli image:", err);
+      throw upstreamError(err, 'The AI could not create the cover illustration.');
+    }
+  }));
+
+  router.post('/story', usage.rateLimit, asyncRoute(async (req, res) => {
+    const { childName, theme, sceneCount } = req.body ?? {};
+    const difficulty = parseDifficulty(req.body);
+    if (typeof childName !== 'string' || !childName.trim() || typeof theme !== 'string' || !theme.trim()) {
+      throw new HttpError(400, 'childName and theme are required.');
+    }
+    if (!Number.isInteger(sceneCount) || sceneCount < 1 || sceneCount > MAX_STORY_SCENES) {
+      throw new HttpError(400, `sceneCount must be a whole number from 1 to ${MAX_STORY_SCENES}.`);
+    }
+    moderation.screen({ childName, theme });
+
+    const signal = clientAbortSignal(res);
+    try {
+      res.json({ scenes: await writeStory(usage.meter(provider, requestUser(req)), { childName: childName.trim(), theme: theme.trim(), sceneCount, difficulty, signal }) });
+    } catch (err) {
+      if (signal.aborted) throw cancelledError();
+      console.error("Error writing story:", err);
+      throw upstreamError(err, 'The AI could not write the story.');
+    }
+  }));
+
+  return router;
+}
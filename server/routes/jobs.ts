@@ -0,0 +1,132 @@
+import express from 'express';
+import type { JobEvent, JobPageRequest, JobRequest } from '../../src/types.ts';
+import { HttpError, uncheckedFields } from '../http.ts';
+import type { JobQueue } from '../jobs.ts';
+import type { Moderation } from '../moderation.ts';
+import { requestUser, type Usage } from '../usage.ts';
+import { MAX_PROMPT_LENGTH, parseDifficulty, parseFresh, parseImageField } from './generation.ts';
+
+/** A full story plus the most photo pages a book can have. */
+const MAX_JOB_PAGES = 40;
+/** Comment lines that keep idle event streams from being closed by proxies. */
+const HEARTBEAT_MS = 25000;
+
+const isText = (value: unknown, max: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+/** An optional image field, kept as the data URL it was sent as. */
+const imageField = (body: unknown, field: string): string | undefined => {
+  const value = uncheckedFields<Record<string, unknown>>(body)[field];
+  return parseImageField(body, field) && typeof value === 'string' ? value : undefined;
+};
+
+const parsePage = (value: unknown, index: number): JobPageRequest => {
+  const page = uncheckedFields<JobPageRequest>(value);
+  if (typeof page.id !== 'number' || !Number.isInteger(page.id) || page.id < 0) {
+    throw new HttpError(400, `Page ${index + 1} must have a non-negative integer id.`);
+  }
+  const { scene, caption } = page;
+  for (const [field, text] of Object.entries({ scene, caption })) {
+    if (text !== undefined && !isText(text, MAX_PROMPT_LENGTH)) {
+      throw new HttpError(400, `Page ${index + 1} ${field} must be non-empty text of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+  }
+  const photo = imageField(value, 'photo');
+  return {
+    id: page.id,
+    ...(isText(scene, MAX_PROMPT_LENGTH) ? { scene: scene.trim() } : {}),
+    ...(isText(caption, MAX_PROMPT_LENGTH) ? { caption: caption.trim() } : {}),
+    ...(photo ? { photo } : {}),
+  };
+};
+
+const isMeta = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Validates a request body into a job the queue can run. */
+const parseJobRequest = (body: unknown): JobRequest => {
+  const job = uncheckedFields<JobRequest>(body);
+  if (!isText(job.theme, MAX_PROMPT_LENGTH)) throw new HttpError(400, 'theme is required.');
+  if (!Array.isArray(job.pages) || job.pages.length === 0 || job.pages.length > MAX_JOB_PAGES) {
+    throw new HttpError(400, `pages must list 1 to ${MAX_JOB_PAGES} pages.`);
+  }
+  const pages = job.pages.map(parsePage);
+  if (new Set(pages.map(page => page.id)).size !== pages.length) {
+    throw new HttpError(400, 'Page ids must be unique.');
+  }
+  if (job.meta !== undefined && !isMeta(job.meta)) {
+    throw new HttpError(400, 'meta must be an object.');
+  }
+  const difficulty = parseDifficulty(body);
+  const reference = imageField(body, 'reference');
+  const coverPhoto = imageField(body, 'coverPhoto');
+  return {
+    theme: job.theme.trim(),
+    pages,
+    ...(difficulty ? { difficulty } : {}),
+    ...(reference ? { reference } : {}),
+    ...(job.firstPageReference === true ? { firstPageReference: true } : {}),
+    ...(coverPhoto ? { coverPhoto } : {}),
+    ...(parseFresh(body) ? { fresh: true } : {}),
+    ...(isMeta(job.meta) ? { meta: job.meta } : {}),
+  };
+};
+
+export function createJobsRouter(jobs: JobQueue, usage: Usage, moderation: Moderation) {
+  const router = express.Router();
+
+  router.post('/', usage.rateLimit, (req, res) => {
+    const request = parseJobRequest(req.body);
+    moderation.screen({
+      theme: request.theme,
+      ...Object.fromEntries(request.pages.flatMap(page => [[`page ${page.id} scene`, page.scene], [`page ${page.id} caption`, page.caption]])),
+    });
+    const user = requestUser(req);
+    // Pages past the quota fail as they come up; this only saves queueing a book that can't start.
+    usage.checkQuota(user);
+    res.status(201).json(jobs.createJob(request, user));
+  });
+
+  router.get('/:id', (req, res) => {
+    const job = jobs.getJob(req.params.id);
+    if (!job) throw new HttpError(404, 'Job not found.');
+    res.json(job);
+  });
+
+  /** Server-Sent Events: a snapshot of the job, then every change until it finishes. */
+  router.get('/:id/events', (req, res) => {
+    const job = jobs.getJob(req.params.id);
+    if (!job) throw new HttpError(404, 'Job not found.');
+
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    const send = (event: JobEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+    send({ type: 'job', job });
+    if (job.status === 'done' || job.status === 'cancelled') {
+      res.end();
+      return;
+    }
+
+    const unsubscribe = jobs.subscribe(job.id, event => {
+      send(event);
+      if (event.type === 'status' && (event.status === 'done' || event.status === 'cancelled')) res.end();
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  router.post('/:id/cancel', (req, res) => {
+    if (!jobs.cancelJob(req.params.id)) throw new HttpError(404, 'Job not found.');
+    res.status(204).end();
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!jobs.deleteJob(req.params.id)) throw new HttpError(404, 'Job not found.');
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,20 @@
+import express from 'express';
+import { HttpError } from '../http.ts';
+import { requestUser, type Usage } from '../usage.ts';
+
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 90;
+
+export function createUsageRouter(usage: Usage) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    const days = req.query.days === undefined ? DEFAULT_DAYS : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      throw new HttpError(400, `days must be a whole number from 1 to ${MAX_DAYS}.`);
+    }
+    res.json(usage.report(requestUser(req), days));
+  });
+
+  return router;
+}
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import type { Request, Response } from 'express';
+import { openDatabase } from './db.ts';
+import { HttpError } from './http.ts';
+import type { ImageProvider } from './providers/index.ts';
+import { createUsage, usageLimitsFromEnv, type UsageLimits } from './usage.ts';
+
+const LIMITS: UsageLimits = { dailyQuota: 2, userQuotas: {}, requestsPerMinute: null, costPerImageUsd: 0.04 };
+
+/** A provider that answers at once, or fails for prompts containing "fail". */
+const fakeProvider = (): ImageProvider & { calls: number } => ({
+  name: 'fake',
+  model: 'fake-image',
+  textModel: 'fake-text',
+  calls: 0,
+  async generateLineArt(prompt) {
+    this.calls++;
+    if (prompt.includes('fail')) throw new Error('The model is busy');
+    return 'data:image/png;base64,AAAA';
+  },
+  async stylizePhoto() {
+    this.calls++;
+    return 'data:image/png;base64,AAAA';
+  },
+  async generateText() {
+    this.calls++;
+    return '{}';
+  },
+});
+
+const usageWith = (limits: Partial<UsageLimits>) => createUsage(openDatabase(':memory:'), { ...LIMITS, ...limits });
+
+const isLimit = (code: string) => (err: unknown) => err instanceof HttpError && err.status === 429 && err.code === code;
+
+describe('daily quota', () => {
+  it('refuses pictures past the quota without calling the model', async () => {
+    const provider = fakeProvider();
+    const metered = usageWith({}).meter(provider, 'Aaru');
+    await metered.generateLineArt('a cat');
+    await metered.stylizePhoto({ mimeType: 'image/png', data: 'AAAA' }, 'a cover');
+    await assert.rejects(metered.generateLineArt('a dog'), isLimit('quota_exceeded'));
+    assert.equal(provider.calls, 2);
+  });
+
+  it('counts each user separately and lets per-user quotas replace the default', async () => {
+    const usage = usageWith({ userQuotas: { Mum: 3, Guest: 0 } });
+    const provider = fakeProvider();
+    for (const prompt of ['a', 'b', 'c']) await usage.meter(provider, 'Mum').generateLineArt(prompt);
+    await usage.meter(provider, 'Aaru').generateLineArt('a');
+    await assert.rejects(usage.meter(provider, 'Mum').generateLineArt('d'), isLimit('quota_exceeded'));
+    await assert.rejects(usage.meter(provider, 'Guest').generateLineArt('a'), isLimit('quota_exceeded'));
+    assert.equal(usage.report('Mum', 1).you.imagesToday, 3);
+  });
+
+  it('counts neither failed pictures nor stories', async () => {
+    const usage = usageWith({ dailyQuota: 1 });
+    const metered = usage.meter(fakeProvider(), 'Aaru');
+    await assert.rejects(metered.generateLineArt('fail'), /busy/);
+    await metered.generateText('a story');
+    await metered.generateLineArt('a cat');
+    const report = usage.report('Aaru', 1);
+    assert.equal(report.you.imagesToday, 1);
+    assert.deepEqual(report.users.map(({ images, stories, failures }) => ({ images, stories, failures })), [{ images: 1, stories: 1, failures: 1 }]);
+  });
+
+  it('holds a place under the quota for pictures still being drawn', async () => {
+    const metered = usageWith({}).meter(fakeProvider(), 'Aaru');
+    const results = await Promise.allSettled(['a', 'b', 'c'].map(prompt => metered.generateLineArt(prompt)));
+    assert.deepEqual(results.map(result => result.status), ['fulfilled', 'fulfilled', 'rejected']);
+  });
+
+  it('has no limit when the quota is null', async () => {
+    const metered = usageWith({ dailyQuota: null }).meter(fakeProvider(), 'Aaru');
+    for (const prompt of ['a', 'b', 'c', 'd']) await metered.generateLineArt(prompt);
+  });
+});
+
+describe('rate limit', () => {
+  afterEach(() => mock.timers.reset());
+
+  const request = (user: string) => ({ get: (header: string) => header === 'X-User' ? user : undefined, ip: '127.0.0.1' }) as unknown as Request;
+
+  /** Runs the middleware once, returning what it passed to `next` and the Retry-After it set. */
+  const attempt = (usage: ReturnType<typeof usageWith>, user: string) => {
+    const headers: Record<string, string> = {};
+    const res = { set: (name: string, value: string) => { headers[name] = value; } } as unknown as Response;
+    let passed: unknown = 'not called';
+    usage.rateLimit(request(user), res, err => { passed = err; });
+    return { error: passed, retryAfter: headers['Retry-After'] };
+  };
+
+  it('allows the limit each minute, per user, then asks them to wait', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const usage = usageWith({ requestsPerMinute: 2 });
+    assert.equal(attempt(usage, 'Aaru').error, undefined);
+    mock.timers.tick(20_000);
+    assert.equal(attempt(usage, 'Aaru').error, undefined);
+    assert.equal(attempt(usage, 'Mum').error, undefined);
+
+    const refused = attempt(usage, 'Aaru');
+    assert.ok(isLimit('rate_limited')(refused.error));
+    assert.equal(refused.retryAfter, '40');
+
+    mock.timers.tick(40_000);
+    assert.equal(attempt(usage, 'Aaru').error, undefined);
+  });
+
+  it('lets everything through when there is no limit', () => {
+    const usage = usageWith({ requestsPerMinute: null });
+    for (let i = 0; i < 100; i++) assert.equal(attempt(usage, 'Aaru').error, undefined);
+  });
+});
+
+describe('usageLimitsFromEnv', () => {
+  it('reads limits, treating 0 as unlimited and skipping malformed quotas', () => {
+    const limits = usageLimitsFromEnv({ DAILY_IMAGE_QUOTA: '0', RATE_LIMIT_PER_MINUTE: '5', USER_DAILY_QUOTAS: 'Aaru=40, Mum = 200,Bad=lots,=3' });
+    assert.equal(limits.dailyQuota, null);
+    assert.equal(limits.requestsPerMinute, 5);
+    assert.deepEqual(limits.userQuotas, { Aaru: 40, Mum: 200 });
+  });
+
+  it('falls back to the defaults', () => {
+    const limits = usageLimitsFromEnv({});
+    assert.equal(limits.dailyQuota, 100);
+    assert.equal(limits.requestsPerMinute, 30);
+    assert.equal(limits.costPerImageUsd, 0.039);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Request, RequestHandler } from 'express';
+import type { UsageCall, UsageKind, UsageReport, UserUsage } from '../src/types.ts';
+import type { Db } from './db.ts';
+import { HttpError } from './http.ts';
+import type { ImageProvider } from './providers/index.ts';
+
+export interface UsageLimits {
+  /** Pictures each user may have drawn per day; null for no limit. */
+  dailyQuota: number | null;
+  /** Per-user quotas that replace `dailyQuota`. */
+  userQuotas: Record<string, number>;
+  /** Generation requests each user may start per minute; null for no limit. */
+  requestsPerMinute: number | null;
+  /** What one picture costs, for the dashboard's estimate. */
+  costPerImageUsd: number;
+}
+
+interface UsageRow {
+  user: string;
+  kind: UsageKind;
+  model: string;
+  ok: number;
+  error: string | null;
+  latency_ms: number;
+  created_at: string;
+}
+
+const MAX_USER_LENGTH = 40;
+const RECENT_CALLS = 50;
+const IMAGE_KINDS = `kind IN ('page', 'cover')`;
+const RATE_WINDOW_MS = 60_000;
+
+/** A limit from the environment, where 0 (or nothing) means unlimited. */
+const envLimit = (value: string | undefined, fallback: number): number | null => {
+  const limit = value === undefined || value === '' ? fallback : Number(value);
+  return Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : null;
+};
+
+/**
+ * Reads `DAILY_IMAGE_QUOTA`, `USER_DAILY_QUOTAS` (e.g. `Aaru=40,Mum=200`),
+ * `RATE_LIMIT_PER_MINUTE` and `IMAGE_COST_USD`.
+ */
+export const usageLimitsFromEnv = (env = process.env): UsageLimits => ({
+  dailyQuota: envLimit(env.DAILY_IMAGE_QUOTA, 100),
+  userQuotas: Object.fromEntries((env.USER_DAILY_QUOTAS ?? '').split(',').flatMap(entry => {
+    const [user, quota] = entry.split('=').map(part => part.trim());
+    return user && Number.isInteger(Number(quota)) && Number(quota) >= 0 ? [[user, Number(quota)]] : [];
+  })),
+  requestsPerMinute: envLimit(env.RATE_LIMIT_PER_MINUTE, 30),
+  costPerImageUsd: Number(env.IMAGE_COST_USD) || 0.039,
+});
+
+/** Header values are ASCII, so the browser URI-encodes names. */
+const decodeName = (value: string) => {
+  try {
+    return decodeURIComponent(value).trim();
+  } catch {
+    return value.trim();
+  }
+};
+
+/**
+ * Who is asking: the name the browser sends in `X-User`, or its address when
+ * it sends none. Names are taken on trust; this is for sharing fairly, not security.
+ */
+export const requestUser = (req: Request): string => {
+  const name = decodeName(req.get('X-User') ?? '');
+  return name ? name.slice(0, MAX_USER_LENGTH) : req.ip ?? 'unknown';
+};
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+export type Usage = ReturnType<typeof createUsage>;
+
+/** Records every model call and enforces each user's daily quota and request rate. */
+export function createUsage(db: Db, limits: UsageLimits = usageLimitsFromEnv()) {
+  const statements = {
+    insert: db.prepare(`
+      INSERT INTO usage (user, kind, model, ok, error, latency_ms, created_at)
+      VALUES (@user, @kind, @model, @ok, @error, @latencyMs, @createdAt)
+    `),
+    imagesSince: db.prepare<[string, string], { count: number }>(
+      `SELECT COUNT(*) AS count FROM usage WHERE user = ? AND ok = 1 AND ${IMAGE_KINDS} AND created_at >= ?`
+    ),
+    users: db.prepare<[string], Omit<UserUsage, 'imagesToday' | 'quota' | 'estimatedCostUsd'>>(`
+      SELECT user,
+        SUM(ok = 1 AND ${IMAGE_KINDS}) AS images,
+        SUM(ok = 1 AND kind = 'story') AS stories,
+        SUM(ok = 0) AS failures,
+        CAST(ROUND(AVG(latency_ms)) AS INTEGER) AS averageLatencyMs
+      FROM usage WHERE created_at >= ? GROUP BY user ORDER BY images DESC, user
+    `),
+    daily: db.prepare<[string], UsageReport['daily'][number]>(`
+      SELECT date(created_at, 'localtime') AS date,
+        SUM(ok = 1 AND ${IMAGE_KINDS}) AS images,
+        SUM(ok = 1 AND kind = 'story') AS stories,
+        SUM(ok = 0) AS failures
+      FROM usage WHERE created_at >= ? GROUP BY date ORDER BY date
+    `),
+    recent: db.prepare<[number], UsageRow>('SELECT * FROM usage ORDER BY id DESC LIMIT ?'),
+  };
+
+  const quotaFor = (user: string): number | null =>
+    Object.hasOwn(limits.userQuotas, user) ? limits.userQuotas[user] : limits.dailyQuota;
+
+  const imagesToday = (user: string) => statements.imagesSince.get(user, startOfToday().toISOString())!.count;
+  // Pictures still being drawn count too, or pages drawn side by side could all slip under the quota.
+  const drawing = new Map<string, number>();
+
+  /** Throws a friendly 429 once `user` has drawn their pictures for the day. */
+  const checkQuota = (user: string) => {
+    const quota = quotaFor(user);
+    if (quota !== null && imagesToday(user) + (drawing.get(user) ?? 0) >= quota) {
+      throw new HttpError(
+        429,
+        `That's all ${quota} picture${quota === 1 ? '' : 's'} for today! Come back tomorrow for more coloring fun.`,
+        'quota_exceeded'
+      );
+    }
+  };
+
+  const record = (call: Omit<UsageCall, 'createdAt'>) => statements.insert.run({
+    ...call,
+    ok: call.ok ? 1 : 0,
+    error: call.error ?? null,
+    createdAt: new Date().toISOString(),
+  });
+
+  /** Times `run`, records how it went, and passes its result or error through. */
+  const timed = async <T>(user: string, kind: UsageKind, model: string, run: () => Promise<T>): Promise<T> => {
+    const started = Date.now();
+    try {
+      const result = await run();
+      record({ user, kind, model, ok: true, latencyMs: Date.now() - started });
+      return result;
+    } catch (err) {
+      record({ user, kind, model, ok: false, error: err instanceof Error ? err.message : String(err), latencyMs: Date.now() - started });
+      throw err;
+    }
+  };
+
+  /** Checks the quota and holds a place under it while `run` draws. */
+  const drawImage = async <T>(user: string, kind: UsageKind, model: string, run: () => Promise<T>): Promise<T> => {
+    checkQuota(user);
+    drawing.set(user, (drawing.get(user) ?? 0) + 1);
+    try {
+      return await timed(user, kind, model, run);
+    } finally {
+      drawing.set(user, drawing.get(user)! - 1);
+      if (!drawing.get(user)) drawing.delete(user);
+    }
+  };
+
+  // Only users seen within the last window are kept, so the map stays as small as the number of active users.
+  const recentWindows = new Map<string, { start: number; count: number }>();
+
+  return {
+    checkQuota,
+
+    /**
+     * The same provider, with every call recorded against `user` and pictures
+     * refused once their quota is used up. Wrap it outside the image cache so
+     * reused pictures are neither recorded nor counted.
+     */
+    meter: (provider: ImageProvider, user: string): ImageProvider => ({
+      name: provider.name,
+      model: provider.model,
+      textModel: provider.textModel,
+      generateLineArt: (prompt, options) => drawImage(user, 'page', provider.model, () => provider.generateLineArt(prompt, options)),
+      stylizePhoto: (photo, prompt, options) => drawImage(user, 'cover', provider.model, () => provider.stylizePhoto(photo, prompt, options)),
+      generateText: (prompt, options) => timed(user, 'story', provider.textModel, () => provider.generateText(prompt, options)),
+    }),
+
+    /** Middleware limiting how many generation requests each user starts per minute. */
+    rateLimit: ((req, res, next) => {
+      const limit = limits.requestsPerMinute;
+      if (limit === null) return next();
+      const user = requestUser(req);
+      const now = Date.now();
+      for (const [key, expired] of recentWindows) {
+        if (now - expired.start >= RATE_WINDOW_MS) recentWindows.delete(key);
+      }
+      const window = recentWindows.get(user);
+      if (!window) {
+        recentWindows.set(user, { start: now, count: 1 });
+        return next();
+      }
+      if (++window.count <= limit) return next();
+      res.set('Retry-After', String(Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000)));
+      next(new HttpError(429, "Whoa, that's a lot of pictures at once! Please wait a minute and try again.", 'rate_limited'));
+    }) as RequestHandler,
+
+    report: (user: string, days: number): UsageReport => {
+      const since = startOfToday();
+      since.setDate(since.getDate() - (days - 1));
+      return {
+        days,
+        you: { user, imagesToday: imagesToday(user), quota: quotaFor(user) },
+        users: statements.users.all(since.toISOString()).map(row => ({
+          ...row,
+          imagesToday: imagesToday(row.user),
+          quota: quotaFor(row.user),
+          estimatedCostUsd: row.images * limits.costPerImageUsd,
+        })),
+        daily: statements.daily.all(since.toISOString()),
+        recent: statements.recent.all(RECENT_CALLS).map(row => ({
+          user: row.user,
+          kind: row.kind,
+          model: row.model,
+          ok: row.ok === 1,
+          ...(row.error ? { error: row.error } : {}),
+          latencyMs: row.latency_ms,
+          createdAt: row.created_at,
+        })),
+        costPerImageUsd: limits.costPerImageUsd,
+      };
+    },
+  };
+}
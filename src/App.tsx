@@ -4,7 +4,6 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { 
   Sparkles, 
   Download, 
@@ -13,74 +12,129 @@ import {
   User, 
   Palette, 
   Loader2,
-  CheckCircle2,
   AlertCircle,
   RefreshCw,
   Layers,
   Image as ImageIcon,
-  Upload
+  Upload,
+  Library as LibraryIcon,
+  BarChart3
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { jsPDF } from 'jspdf';
 import confetti from 'canvas-confetti';
+import { ApiError, createBook, createJob, deleteJob, generatePage, getBook, getJob, isTransientError, updateBook, watchJob, writeStory } from './api.ts';
+import GenerationProgress from './components/GenerationProgress.tsx';
+import Library from './components/Library.tsx';
+import PageCard from './components/PageCard.tsx';
+import PhotoPagesPicker from './components/PhotoPagesPicker.tsx';
+import StoryEditor from './components/StoryEditor.tsx';
+import DifficultyPicker from './components/DifficultyPicker.tsx';
+import ThemePackPanel from './components/ThemePackPanel.tsx';
+import ActivityPanel from './components/ActivityPanel.tsx';
+import ColoringMode from './components/ColoringMode.tsx';
+import ChildProfilesPanel from './components/ChildProfilesPanel.tsx';
+import CharacterPicker, { type CharacterSource } from './components/CharacterPicker.tsx';
+import CleanupPanel from './components/CleanupPanel.tsx';
+import CoverDesigner from './components/CoverDesigner.tsx';
+import LayoutPanel from './components/LayoutPanel.tsx';
+import UsageDashboard from './components/UsageDashboard.tsx';
+import ThemeSuggestions from './components/ThemeSuggestions.tsx';
+import { DEFAULT_COVER_DESIGN } from './cover.ts';
+import { downloadPageSvg, readFileAsDataUrl, saveFile, toSquarePng } from './images.ts';
+import { DEFAULT_CLEANUP, type CleanupSettings } from './lineArt.ts';
+import { drawActivity, newActivitySeed } from './activities.ts';
+import { generateBatch, type BatchProgress } from './batch.ts';
+import { createColorByNumberPage, numberPaletteColors, type NumberPalette } from './colorByNumber.ts';
+import { DEFAULT_LAYOUT, type PageLayout } from './layout.ts';
+import { downloadBookPdf } from './pdf.ts';
+import { drawWithQualityGate, finishPage } from './pipeline.ts';
+import { loadProfiles, saveProfiles } from './profiles.ts';
+import { BUILT_IN_PACKS, TEMPLATES, difficultyForAges, loadCustomPacks, packPageSubjects, saveCustomPacks, suggestThemePacks, templateById } from './themePacks.ts';
+import type { RetryOptions, TaskState } from './scheduler.ts';
+import type {
+  ActivityKind, ActivityLevel, Book, BookContent, ChildProfile, CoverDesign, CoverPalette, Difficulty, GeneratedPage, Job, JobCover,
+  JobPageRequest, StoryScene, ThemePack
+} from './types.ts';
 
-// --- Types ---
-interface GeneratedPage {
-  id: number;
-  base64: string;
-  prompt: string;
+// --- Constants ---
+const PAGE_COUNT_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10, 12, 15, 20, 25, 30];
+// How hard to retry rate limits and outages when starting a batch's jobs.
+const RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  isRetryable: isTransientError
+};
+
+
+/** The server's own words for a used-up quota or a rate limit, which say more than our usual apology. */
+const limitMessage = (err: unknown): string | null =>
+  err instanceof ApiError && (err.code === 'quota_exceeded' || err.code === 'rate_limited') ? err.message : null;
+
+/** Turned down by our moderation or the AI's safety filters: the idea needs changing, not retrying. */
+const isRefusal = (code: string | undefined) => code === 'content_blocked' || code === 'safety_blocked';
+
+/** Reference pictures and photo pages are shrunk to this size to keep every page request small. */
+const REFERENCE_SIZE = 512;
+const MAX_PHOTO_PAGES = 10;
+
+/** What a page is drawn from besides the book's theme. */
+interface PageSource {
+  scene?: StoryScene;
+  /** A theme pack's page prompt, filled in for this book. */
+  subject?: string;
+  photo?: string;
 }
 
-interface CoverTemplate {
-  id: string;
-  name: string;
-  bgColor: string;
-  textColor: string;
-  accentColor: string;
+/** What a job sends for a page; `sourceFor` turns it back into a source for a reopened tab. */
+const jobPageFor = (id: number, source: PageSource = {}): JobPageRequest => ({
+  id,
+  ...(source.scene ? { scene: source.scene.illustration, caption: source.scene.caption } : source.subject ? { scene: source.subject } : {}),
+  ...(source.photo ? { photo: source.photo } : {})
+});
+
+const sourceFor = ({ scene, caption, photo }: JobPageRequest): PageSource => ({
+  ...(scene && caption ? { scene: { illustration: scene, caption } } : scene ? { subject: scene } : {}),
+  ...(photo ? { photo } : {})
+});
+
+/** Kept with a job on the server, so whichever tab sees it finish can save the book. */
+interface JobMeta {
+  childName: string;
+  isNewBook: boolean;
+  /** The library book a retry adds pages to. */
+  bookId: string | null;
+  palette: CoverPalette;
+  cover: CoverDesign;
 }
 
-// --- Constants ---
-const MODEL_NAME = "gemini-2.5-flash-image";
-const PAGE_COUNT = 5;
-
-const TEMPLATES: CoverTemplate[] = [
-  {
-    id: 'classic',
-    name: 'Classic',
-    bgColor: '#f5f5f0',
-    textColor: '#282828',
-    accentColor: '#f97316'
-  },
-  {
-    id: 'sunshine',
-    name: 'Sunshine',
-    bgColor: '#fffbeb',
-    textColor: '#92400e',
-    accentColor: '#f59e0b'
-  },
-  {
-    id: 'sky',
-    name: 'Sky',
-    bgColor: '#f0f9ff',
-    textColor: '#075985',
-    accentColor: '#0ea5e9'
-  },
-  {
-    id: 'berry',
-    name: 'Berry',
-    bgColor: '#fdf2f8',
-    textColor: '#9d174d',
-    accentColor: '#ec4899'
-  }
-];
+/** Whether a stored job was started by this form, rather than e.g. by a batch, which keeps less. */
+const isJobMeta = (value: unknown): value is JobMeta => {
+  const meta = value as { [K in keyof JobMeta]?: unknown } | null;
+  const palette = meta?.palette as { [K in keyof CoverPalette]?: unknown } | null | undefined;
+  return typeof meta?.childName === 'string' && typeof meta.isNewBook === 'boolean' &&
+    (meta.bookId === null || typeof meta.bookId === 'string') &&
+    typeof palette?.bgColor === 'string' && typeof palette.textColor === 'string' && typeof palette.accentColor === 'string' &&
+    typeof meta.cover === 'object' && meta.cover !== null;
+};
 
-const hexToRgb = (hex: string): [number, number, number] => {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-  return [r, g, b];
+const ACTIVE_JOB_STORAGE_KEY = 'coloringBook.activeJob';
+const CLEANUP_STORAGE_KEY = 'coloringBook.cleanup';
+const LAYOUT_STORAGE_KEY = 'coloringBook.layout';
+
+/** Reads saved settings, filling in defaults for anything missing or unreadable. */
+const loadSettings = <T,>(key: string, defaults: T): T => {
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(key) || '{}') };
+  } catch {
+    return defaults;
+  }
 };
 
+/** Inserts or replaces a page, keeping the book ordered by page id. */
+const upsertPage = (pages: GeneratedPage[], page: GeneratedPage): GeneratedPage[] =>
+  [...pages.filter(p => p.id !== page.id), page].sort((a, b) => a.id - b.id);
+
 const FireworksBackground = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -187,81 +241,95 @@ const FireworksBackground = () => {
   );
 };
 
-const PRESET_THEMES = [
-  "Barbie",
-  "Peppa Pig",
-  "Mowgli",
-  "Like Nastya",
-  "Paw Patrol",
-  "Frozen",
-  "Spider-Man",
-  "Bluey",
-  "Cocomelon",
-  "Pokémon"
-];
 
 export default function App() {
   const [childName, setChildName] = useState('');
   const [theme, setTheme] = useState('');
   const [pageCount, setPageCount] = useState(5);
+  const [difficulty, setDifficulty] = useState<Difficulty>('preschool');
+  const [customPacks, setCustomPacks] = useState<ThemePack[]>(loadCustomPacks);
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ChildProfile[]>(loadProfiles);
+  const [batchProgress, setBatchProgress] = useState<Record<string, BatchProgress>>({});
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
   const [bgColor, setBgColor] = useState(TEMPLATES[0].bgColor);
   const [textColor, setTextColor] = useState(TEMPLATES[0].textColor);
   const [accentColor, setAccentColor] = useState(TEMPLATES[0].accentColor);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [pageStatuses, setPageStatuses] = useState<Record<number, TaskState>>({});
+  const [failedPageIds, setFailedPageIds] = useState<number[]>([]);
+  const [coverFailed, setCoverFailed] = useState(false);
   const [pages, setPages] = useState<GeneratedPage[]>([]);
   const [uploadedPhoto, setUploadedPhoto] = useState<string | null>(null);
   const [ghibliImage, setGhibliImage] = useState<string | null>(null);
+  const [coverDesign, setCoverDesign] = useState<CoverDesign>(DEFAULT_COVER_DESIGN);
+  const [storyMode, setStoryMode] = useState(false);
+  // The outline being edited, before any pages are drawn.
+  const [storyDraft, setStoryDraft] = useState<StoryScene[] | null>(null);
+  const [isWritingStory, setIsWritingStory] = useState(false);
+  const [pagePhotos, setPagePhotos] = useState<string[]>([]);
+  // Scenes and photos behind the current book's pages, by page id, for retrying failed ones.
+  const [bookSources, setBookSources] = useState<Record<number, PageSource>>({});
+  const [characterSource, setCharacterSource] = useState<CharacterSource>('none');
+  const [characterSheet, setCharacterSheet] = useState<string | null>(null);
+  // The current book's resolved character reference, reused for retries and regenerations.
+  const [characterImage, setCharacterImage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Other themes to try, shown while `error` is the refusal they were picked for.
+  const [themeSuggestions, setThemeSuggestions] = useState<{ forError: string; packs: ThemePack[] } | null>(null);
+  const [busyPageIds, setBusyPageIds] = useState<number[]>([]);
+  const [isAddingActivity, setIsAddingActivity] = useState(false);
+  const [numberPalette, setNumberPalette] = useState<NumberPalette>('rainbow');
+  const [vectorPdf, setVectorPdf] = useState(true);
+  // Off asks the server to draw every picture anew even when it has drawn the same request before.
+  const [reuseCached, setReuseCached] = useState(true);
+  const [coloredPdf, setColoredPdf] = useState(false);
+  const [coloringPageId, setColoringPageId] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [cleanup, setCleanup] = useState<CleanupSettings>(() => loadSettings(CLEANUP_STORAGE_KEY, DEFAULT_CLEANUP));
+  const [layout, setLayout] = useState<PageLayout>(() => loadSettings(LAYOUT_STORAGE_KEY, DEFAULT_LAYOUT));
+  // Async work (generation, edits) reads the latest settings from here rather than a stale closure.
+  const cleanupRef = useRef(cleanup);
+  const cleanupVersion = useRef(0);
+  const [view, setView] = useState<'create' | 'library' | 'usage'>('create');
+  // The library entry the results grid is showing, if it has been saved.
+  const [savedBook, setSavedBook] = useState<{ id: string; childName: string; theme: string } | null>(null);
+  const skipNextAutosave = useRef(false);
+  // Bumped whenever the results grid switches to a different book, so late saves can't relabel it.
+  const bookSession = useRef(0);
+  // The in-flight generation. Anything a run produces after it stops being current is dropped.
+  const activeRun = useRef<{
+    controller: AbortController;
+    jobId: string;
+    childName: string;
+    bookTheme: string;
+    isNewBook: boolean;
+    /** Stops listening to the job's progress. */
+    stop: () => void;
+  } | null>(null);
+  const batchController = useRef<AbortController | null>(null);
 
-  // Initialize Gemini
-  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-  const generateSinglePage = async (pageIndex: number, userTheme: string): Promise<GeneratedPage> => {
-    // Variety in prompts
-    const variations = [
-      `A main character ${userTheme} coloring page`,
-      `A scenic background of ${userTheme} coloring page`,
-      `An action scene with ${userTheme} coloring page`,
-      `A close up detail of ${userTheme} coloring page`,
-      `A group of characters in ${userTheme} coloring page`
-    ];
-
-    const prompt = `Black and white coloring book page for children. Simple line art, thick black outlines, no shading, no gradients, white background. Subject: ${variations[pageIndex % variations.length]}. High contrast, easy to color.`;
-
-    try {
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: {
-          parts: [{ text: prompt }],
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "1:1",
-          },
-        },
-      });
-
-      let base64 = '';
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          base64 = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-
-      if (!base64) throw new Error("No image data received from AI");
-
-      return {
-        id: pageIndex,
-        base64,
-        prompt
-      };
-    } catch (err) {
-      console.error(`Error generating page ${pageIndex}:`, err);
-      throw err;
+  // Keep the saved copy in sync with palette and page changes made after generation.
+  useEffect(() => {
+    if (!savedBook || isGenerating) return;
+    if (skipNextAutosave.current) {
+      skipNextAutosave.current = false;
+      return;
     }
-  };
+
+    const timer = setTimeout(() => {
+      updateBook(savedBook.id, {
+        childName: savedBook.childName,
+        theme: savedBook.theme,
+        palette: { bgColor, textColor, accentColor },
+        coverImage: ghibliImage,
+        pages,
+        cover: coverDesign,
+        ...(characterImage ? { characterImage } : {})
+      }).catch(err => console.error("Error saving book:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [savedBook, isGenerating, bgColor, textColor, accentColor, ghibliImage, pages, coverDesign, characterImage]);
 
   const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -274,149 +342,625 @@ export default function App() {
     }
   };
 
-  const generateGhibliImage = async (base64Photo: string): Promise<string> => {
-    const prompt = "A beautiful Studio Ghibli style illustration based on the provided image. Vibrant colors, soft lighting, whimsical atmosphere, hand-drawn aesthetic, high quality.";
-    
+  useEffect(() => {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  useEffect(() => {
+    saveCustomPacks(customPacks);
+  }, [customPacks]);
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  const packs = [...BUILT_IN_PACKS, ...customPacks];
+  const selectedPack = packs.find(pack => pack.id === selectedPackId) ?? null;
+  /** The pack a theme names, preferring the selected one when two share a name. */
+  const packForTheme = (name: string) => selectedPack?.name === name
+    ? selectedPack
+    : packs.find(pack => pack.name.toLowerCase() === name.toLowerCase()) ?? null;
+
+  /** Uses a pack's name as the theme, with its suggested cover and age band. */
+  const selectPack = (pack: ThemePack) => {
+    const template = templateById(pack.palette);
+    setSelectedPackId(pack.id);
+    setTheme(pack.name);
+    setBgColor(template.bgColor);
+    setTextColor(template.textColor);
+    setAccentColor(template.accentColor);
+    setDifficulty(difficultyForAges(pack.minAge));
+  };
+
+  const showRefusal = (message: string) => {
+    setError(message);
+    setThemeSuggestions({ forError: message, packs: suggestThemePacks() });
+  };
+
+  /** Shows why something failed in the server's words when it was a refusal or a limit, else in `fallback`. */
+  const showFailure = (err: unknown, fallback: string) => {
+    if (err instanceof ApiError && isRefusal(err.code)) showRefusal(err.message);
+    else setError(limitMessage(err) ?? fallback);
+  };
+
+  const savePack = (pack: ThemePack) => setCustomPacks(current =>
+    current.some(p => p.id === pack.id) ? current.map(p => p.id === pack.id ? pack : p) : [...current, pack]);
+
+  const deletePack = (id: string) => {
+    setCustomPacks(current => current.filter(pack => pack.id !== id));
+    if (selectedPackId === id) setSelectedPackId(null);
+  };
+
+  const saveProfile = (profile: ChildProfile) => setProfiles(current =>
+    current.some(p => p.id === profile.id) ? current.map(p => p.id === profile.id ? profile : p) : [...current, profile]);
+
+  /** Fills in the form for one child: their name, age band, cover, photo and first favorite theme. */
+  const applyProfile = (profile: ChildProfile) => {
+    const favorite = profile.favoriteThemes[0];
+    const pack = favorite ? packForTheme(favorite) : null;
+    if (pack) {
+      selectPack(pack);
+    } else if (favorite) {
+      setTheme(favorite);
+      setSelectedPackId(null);
+    }
+    const template = templateById(profile.template);
+    setChildName(profile.name);
+    setDifficulty(profile.difficulty);
+    setBgColor(template.bgColor);
+    setTextColor(template.textColor);
+    setAccentColor(template.accentColor);
+    if (profile.photo) setUploadedPhoto(profile.photo);
+  };
+
+  /** Makes a book for each child in turn, then downloads all their PDFs in one zip. */
+  const startBatch = async (children: ChildProfile[]) => {
+    const controller = new AbortController();
+    batchController.current = controller;
+    setIsBatchRunning(true);
+    setBatchProgress({});
+    setError(null);
+    const books = children.map(profile => {
+      const bookTheme = theme.trim() || profile.favoriteThemes[0];
+      const pack = packForTheme(bookTheme);
+      return { profile, theme: bookTheme, subjects: pack ? packPageSubjects(pack, pageCount, { childName: profile.name, theme: bookTheme }) : undefined };
+    });
+
     try {
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: base64Photo.split(',')[1],
-                mimeType: "image/png"
-              }
-            },
-            { text: prompt }
-          ],
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "1:1",
-          },
+      const zip = await generateBatch(books, {
+        pageCount,
+        cover: { ...coverDesign, title: '', subtitle: '', dedication: '' },
+        pdf: { vector: vectorPdf, layout },
+        retry: { ...RETRY_OPTIONS, signal: controller.signal },
+        fresh: !reuseCached,
+        cleanup: () => cleanupRef.current,
+        onProgress: (id, progress) => setBatchProgress(current => ({ ...current, [id]: progress }))
+      });
+      // A cancelled batch still hands over the books it finished.
+      if (zip) {
+        saveFile(zip, 'application/zip', 'Coloring_Books.zip');
+      } else if (!controller.signal.aborted) {
+        setError("Oops! We couldn't make any of the books. Please try again.");
+      }
+    } catch (err) {
+      console.error("Error making the batch:", err);
+      showFailure(err, "Oops! We couldn't finish the books. Please try again.");
+    } finally {
+      batchController.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  // Re-run cleanup (and re-score the result) on every page whenever the settings change.
+  useEffect(() => {
+    localStorage.setItem(CLEANUP_STORAGE_KEY, JSON.stringify(cleanup));
+    if (cleanupRef.current === cleanup) return;
+    cleanupRef.current = cleanup;
+    const version = ++cleanupVersion.current;
+
+    const timer = setTimeout(async () => {
+      const cleaned = await Promise.all(pages.map(page => finishPage(page, cleanup, page.quality?.attempts)));
+      if (version !== cleanupVersion.current) return;
+      const byOriginal = new Map(cleaned.map(page => [page.original, page]));
+      // Pages regenerated while we worked have a new original and are left alone.
+      setPages(current => current.map(page => byOriginal.get(page.original ?? page.base64) ?? page));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [cleanup]);
+
+  const saveToLibrary = async (content: BookContent) => {
+    const session = bookSession.current;
+    try {
+      const book = await createBook(content);
+      if (bookSession.current !== session) return;
+      skipNextAutosave.current = true;
+      setSavedBook({ id: book.id, childName: book.childName, theme: book.theme });
+    } catch (err) {
+      console.error("Error saving book to library:", err);
+    }
+  };
+
+  const openBook = (book: Book) => {
+    cancelGeneration();
+    bookSession.current++;
+    skipNextAutosave.current = true;
+    setSavedBook({ id: book.id, childName: book.childName, theme: book.theme });
+    setChildName(book.childName);
+    setTheme(book.theme);
+    setBgColor(book.palette.bgColor);
+    setTextColor(book.palette.textColor);
+    setAccentColor(book.palette.accentColor);
+    setGhibliImage(book.coverImage);
+    setPages(book.pages);
+    setCoverDesign(book.cover ?? DEFAULT_COVER_DESIGN);
+    setBookSources({});
+    setSelectedPackId(null);
+    setColoringPageId(null);
+    setCharacterImage(book.characterImage ?? null);
+    setError(null);
+    setView('create');
+  };
+
+  /** Shows a job's pages as they arrive, then finishes the book once the job is over. */
+  const followJob = (job: Job, meta: JobMeta, base: { pages: GeneratedPage[]; coverImage: string | null; characterImage: string | null }) => {
+    const run = { controller: new AbortController(), jobId: job.id, childName: meta.childName, bookTheme: job.theme, isNewBook: meta.isNewBook, stop: () => {} };
+    activeRun.current = run;
+    const { signal } = run.controller;
+    const isCurrent = () => activeRun.current === run;
+    const sources = Object.fromEntries(job.pages.map(page => [page.id, sourceFor(page)]));
+
+    let jobPages = job.pages;
+    let cover = job.cover;
+    let coverImage = base.coverImage;
+    let characterImage = job.reference ?? base.characterImage;
+    const finished = new Map<number, Promise<GeneratedPage>>();
+
+    setIsGenerating(true);
+    setError(null);
+    setFailedPageIds([]);
+    setCoverFailed(false);
+    setPageStatuses(Object.fromEntries(job.pages.map(page => [page.id, page.state])));
+
+    // Cleanup, scoring and the quality gate need a canvas, so they run here as each page arrives.
+    const finishDrawn = (drawn: GeneratedPage, state: TaskState) => {
+      if (finished.has(drawn.id)) return;
+      const { scene, subject, photo } = sources[drawn.id] ?? {};
+      let firstDraw: GeneratedPage | null = drawn;
+      const page = drawWithQualityGate(
+        async () => {
+          if (firstDraw) {
+            const page = firstDraw;
+            firstDraw = null;
+            return page;
+          }
+          const redrawn = await generatePage({
+            pageIndex: drawn.id,
+            theme: job.theme,
+            scene: scene?.illustration ?? subject,
+            photo,
+            difficulty: job.difficulty,
+            reference: photo ? undefined : characterImage ?? undefined,
+            // The cache would hand back the very picture the gate just turned down.
+            fresh: true
+          }, signal);
+          return { ...redrawn, ...(scene ? { caption: scene.caption } : {}), ...(photo ? { photo } : {}) };
         },
+        () => cleanupRef.current,
+        report => {
+          if (isCurrent()) setPageStatuses(current => ({ ...current, [drawn.id]: { status: 'running', attempt: state.attempt, detail: `Redrawing: ${report.reasons[0]}` } }));
+        }
+      ).catch(err => {
+        // A redraw that fails still leaves the page as the server drew it.
+        if (!signal.aborted) console.error(`Error redrawing page ${drawn.id}:`, err);
+        return finishPage(drawn, cleanupRef.current);
+      }).then(page => {
+        if (isCurrent()) {
+          setPages(current => upsertPage(current, page));
+          setPageStatuses(current => ({ ...current, [drawn.id]: state }));
+        }
+        return page;
       });
+      finished.set(drawn.id, page);
+    };
+
+    let isFinishing = false;
+    const finish = async () => {
+      if (isFinishing) return;
+      isFinishing = true;
+      run.stop();
+      const settled = await Promise.allSettled(finished.values());
+      if (!isCurrent()) return;
+      activeRun.current = null;
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      deleteJob(job.id).catch(err => console.error("Error removing finished job:", err));
 
-      let base64 = '';
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          base64 = `data:image/png;base64,${part.inlineData.data}`;
-          break;
+      const finishedPages = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+      const allPages = finishedPages.reduce(upsertPage, base.pages);
+      const failed = jobPages.filter(page => !finished.has(page.id)).map(page => page.id);
+      const coverOk = cover?.state.status !== 'failed';
+      const states = [cover?.state, ...jobPages.map(page => page.state)];
+      const overQuota = states.find(state => state?.code === 'quota_exceeded');
+      const refused = states.find(state => isRefusal(state?.code));
+      setFailedPageIds(failed);
+      setCoverFailed(!coverOk);
+      setIsGenerating(false);
+
+      if (failed.length > 0 || !coverOk) {
+        const missing = [
+          ...(coverOk ? [] : ['the cover picture']),
+          ...(failed.length ? [`${failed.length} page${failed.length === 1 ? '' : 's'}`] : [])
+        ].join(' and ');
+        if (overQuota) {
+          setError(`${overQuota.error} Your finished pages are safe, and you can draw ${missing === 'the cover picture' ? 'it' : 'the rest'} then.`);
+        } else if (refused?.error) {
+          showRefusal(`${refused.error} Your finished pages are safe.`);
+        } else {
+          setError(`Oops! We couldn't draw ${missing}. Your finished pages are safe — retry just the missing ones.`);
         }
+      } else {
+        confetti({
+          particleCount: 150,
+          spread: 70,
+          origin: { y: 0.6 },
+          colors: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#1A535C']
+        });
+      }
+
+      // Save whatever was produced so a refresh never loses paid generations.
+      // Existing books are kept in sync by the autosave effect instead.
+      if (meta.isNewBook && allPages.length > 0) {
+        await saveToLibrary({
+          childName: meta.childName,
+          theme: job.theme,
+          palette: meta.palette,
+          coverImage,
+          pages: allPages,
+          cover: meta.cover,
+          ...(characterImage ? { characterImage } : {})
+        });
       }
+    };
+
+    const applyCover = (next: JobCover | null) => {
+      cover = next;
+      if (next?.image) {
+        coverImage = next.image;
+        setGhibliImage(next.image);
+      }
+    };
 
-      if (!base64) throw new Error("No Ghibli image data received from AI");
-      return base64;
+    run.stop = watchJob(job.id, event => {
+      if (!isCurrent()) return;
+      switch (event.type) {
+        case 'job':
+          // Sent on every (re)connect, so anything missed while disconnected is caught up here.
+          jobPages = event.job.pages;
+          applyCover(event.job.cover);
+          if (event.job.reference) characterImage = event.job.reference;
+          setCharacterImage(characterImage);
+          setPageStatuses(current => ({ ...current, ...Object.fromEntries(jobPages.filter(page => !finished.has(page.id)).map(page => [page.id, page.state])) }));
+          jobPages.forEach(page => { if (page.page) finishDrawn(page.page, page.state); });
+          if (event.job.status === 'done' || event.job.status === 'cancelled') finish();
+          return;
+        case 'page':
+          jobPages = jobPages.map(page => page.id === event.id ? { ...page, state: event.state } : page);
+          if (event.page) {
+            finishDrawn(event.page, event.state);
+          } else {
+            setPageStatuses(current => ({ ...current, [event.id]: event.state }));
+          }
+          return;
+        case 'cover':
+          applyCover(event.cover);
+          return;
+        case 'reference':
+          characterImage = event.reference;
+          setCharacterImage(characterImage);
+          return;
+        case 'status':
+          if (event.status === 'done' || event.status === 'cancelled') finish();
+      }
+    }, finish);
+  };
+
+  /** Hands the pages (and cover) to a server job, so closing or reloading the tab doesn't stop them. */
+  const runGeneration = async ({ pageIds, photo, bookTheme, sources, firstPageReference, base, isNewBook }: {
+    pageIds: number[];
+    photo: string | null;
+    bookTheme: string;
+    sources: Record<number, PageSource>;
+    /** Draw the first page alone and use it as the character reference for the rest. */
+    firstPageReference: boolean;
+    base: { pages: GeneratedPage[]; coverImage: string | null; cover: CoverDesign; characterImage: string | null };
+    isNewBook: boolean;
+  }) => {
+    setIsGenerating(true);
+    setError(null);
+    const meta: JobMeta = {
+      childName,
+      isNewBook,
+      bookId: isNewBook ? null : savedBook?.id ?? null,
+      palette: { bgColor, textColor, accentColor },
+      cover: base.cover
+    };
+    let job: Job;
+    try {
+      job = await createJob({
+        theme: bookTheme,
+        difficulty,
+        pages: pageIds.map(id => jobPageFor(id, sources[id])),
+        ...(base.characterImage ? { reference: base.characterImage } : {}),
+        ...(firstPageReference ? { firstPageReference } : {}),
+        ...(photo ? { coverPhoto: photo } : {}),
+        ...(reuseCached ? {} : { fresh: true }),
+        meta: { ...meta }
+      });
     } catch (err) {
-      console.error("Error generating Ghibli image:", err);
-      throw err;
+      console.error("Error starting generation:", err);
+      setIsGenerating(false);
+      showFailure(err, "Oops! We couldn't start drawing your book. Please try again.");
+      return;
+    }
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, job.id);
+    followJob(job, meta, base);
+  };
+
+  /** Stops the current run, keeping (and saving) whatever pages it already drew. */
+  const cancelGeneration = () => {
+    const run = activeRun.current;
+    if (!run) return;
+    activeRun.current = null;
+    run.controller.abort();
+    run.stop();
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    deleteJob(run.jobId).catch(err => console.error("Error cancelling job:", err));
+    setIsGenerating(false);
+    setPageStatuses({});
+
+    if (run.isNewBook && pages.length > 0) {
+      saveToLibrary({
+        childName: run.childName,
+        theme: run.bookTheme,
+        palette: { bgColor, textColor, accentColor },
+        coverImage: ghibliImage,
+        pages,
+        cover: coverDesign,
+        ...(characterImage ? { characterImage } : {})
+      });
     }
   };
 
+  // Pick up a job an earlier visit started: follow it if it is still drawing, or finish the book if it is done.
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!jobId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const job = await getJob(jobId);
+        const { meta } = job;
+        // Nothing to reopen from a job this form didn't start; forget it rather than misread it.
+        if (!isJobMeta(meta)) {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          return;
+        }
+        const book = meta.bookId ? await getBook(meta.bookId).catch(() => null) : null;
+        if (cancelled) return;
+        bookSession.current++;
+        skipNextAutosave.current = true;
+        setSavedBook(book ? { id: book.id, childName: book.childName, theme: book.theme } : null);
+        setChildName(meta.childName);
+        setTheme(job.theme);
+        setBgColor(meta.palette.bgColor);
+        setTextColor(meta.palette.textColor);
+        setAccentColor(meta.palette.accentColor);
+        setCoverDesign(meta.cover);
+        setPages(book?.pages ?? []);
+        setGhibliImage(book?.coverImage ?? null);
+        setBookSources(Object.fromEntries(job.pages.map(page => [page.id, sourceFor(page)])));
+        const characterImage = job.reference ?? book?.characterImage ?? null;
+        setCharacterImage(characterImage);
+        followJob(job, meta, { pages: book?.pages ?? [], coverImage: book?.coverImage ?? null, characterImage });
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 404) {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        } else {
+          console.error("Error reopening the book being drawn:", err);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!childName || !theme) return;
 
-    setIsGenerating(true);
-    setProgress(0);
+    if (storyMode) {
+      await writeStoryDraft();
+    } else {
+      await startBook(null);
+    }
+  };
+
+  const writeStoryDraft = async () => {
+    setIsWritingStory(true);
+    setError(null);
+    try {
+      setStoryDraft(await writeStory(childName, theme, pageCount, difficulty));
+    } catch (err) {
+      console.error("Error writing story:", err);
+      showFailure(err, "Oops! We couldn't write the story. Please try again.");
+    } finally {
+      setIsWritingStory(false);
+    }
+  };
+
+  /** Starts a new book: one page per story scene (or `pageCount` themed pages), then one per photo. */
+  const startBook = async (scenes: StoryScene[] | null) => {
+    const themePageCount = scenes?.length ?? pageCount;
+    const sources: Record<number, PageSource> = {};
+    scenes?.forEach((scene, index) => { sources[index] = { scene }; });
+    if (!scenes && selectedPack) {
+      packPageSubjects(selectedPack, pageCount, { childName, theme }).forEach((subject, index) => { sources[index] = { subject }; });
+    }
+    pagePhotos.forEach((photo, index) => { sources[themePageCount + index] = { photo }; });
+
+    bookSession.current++;
     setPages([]);
     setGhibliImage(null);
-    setError(null);
+    setSavedBook(null);
+    setStoryDraft(null);
+    setBookSources(sources);
+    setColoringPageId(null);
+    // Keep the look of the cover but not wording written for the previous book.
+    const cover = { ...coverDesign, title: '', subtitle: '', dedication: '' };
+    setCoverDesign(cover);
 
-    const newPages: GeneratedPage[] = [];
-    
-    try {
-      // Generate Ghibli image if photo is uploaded
-      if (uploadedPhoto) {
-        const ghibli = await generateGhibliImage(uploadedPhoto);
-        setGhibliImage(ghibli);
+    const referenceSource = characterSource === 'photo' ? uploadedPhoto : characterSource === 'sheet' ? characterSheet : null;
+    let characterImage: string | null = null;
+    if (referenceSource) {
+      try {
+        characterImage = await toSquarePng(referenceSource, REFERENCE_SIZE);
+      } catch (err) {
+        console.error("Error preparing character reference:", err);
+        setError("Oops! We couldn't read the character picture. Please try a different image.");
+        return;
       }
+    }
+    setCharacterImage(characterImage);
 
-      // Generate pages one by one to show progress and avoid hitting rate limits too hard
-      for (let i = 0; i < pageCount; i++) {
-        const page = await generateSinglePage(i, theme);
-        newPages.push(page);
-        setPages([...newPages]);
-        setProgress(((i + 1) / pageCount) * 100);
-      }
-      
-      confetti({
-        particleCount: 150,
-        spread: 70,
-        origin: { y: 0.6 },
-        colors: ['#FF6B6B', '#4ECDC4', '#FFE66D', '#1A535C']
-      });
+    await runGeneration({
+      pageIds: Array.from({ length: themePageCount + pagePhotos.length }, (_, i) => i),
+      photo: uploadedPhoto,
+      bookTheme: theme,
+      sources,
+      firstPageReference: characterSource === 'first-page',
+      base: { pages: [], coverImage: null, cover, characterImage },
+      isNewBook: true
+    });
+  };
+
+  const retryFailed = () => runGeneration({
+    pageIds: failedPageIds,
+    photo: coverFailed ? uploadedPhoto : null,
+    bookTheme: savedBook?.theme ?? theme,
+    sources: bookSources,
+    firstPageReference: characterSource === 'first-page',
+    base: { pages, coverImage: ghibliImage, cover: coverDesign, characterImage },
+    isNewBook: !savedBook
+  });
+
+  // --- Single-page edits: ids stay put so PDF order never changes ---
+  const updatePage = async (pageId: number, produce: () => Promise<GeneratedPage>) => {
+    setBusyPageIds(ids => [...ids, pageId]);
+    setError(null);
+    try {
+      const updated = await produce();
+      setPages(current => current.map(page => page.id === pageId
+        ? { ...updated, id: pageId, ...(page.caption ? { caption: page.caption } : {}), ...(page.photo ? { photo: page.photo } : {}) }
+        : page));
     } catch (err) {
-      setError("Oops! Something went wrong while generating the coloring book. Please try again.");
+      console.error(`Error updating page ${pageId}:`, err);
+      showFailure(err, "Oops! That page couldn't be updated. The rest of your book is safe, so please try again.");
     } finally {
-      setIsGenerating(false);
+      setBusyPageIds(ids => ids.filter(id => id !== pageId));
     }
   };
 
-  const downloadPDF = () => {
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4'
-    });
+  const activityContext = () => ({ childName, artPages: pages.filter(page => !page.activity).map(page => page.base64) });
 
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-
-    const bgRgb = hexToRgb(bgColor);
-    const textRgb = hexToRgb(textColor);
-
-    // --- Cover Page ---
-    doc.setFillColor(bgRgb[0], bgRgb[1], bgRgb[2]);
-    doc.rect(0, 0, pageWidth, pageHeight, 'F');
-    
-    doc.setTextColor(textRgb[0], textRgb[1], textRgb[2]);
-    doc.setFontSize(32);
-    doc.text(`${childName}'s`, pageWidth / 2, 80, { align: 'center' });
-    
-    doc.setFontSize(48);
-    doc.text("Coloring Book", pageWidth / 2, 105, { align: 'center' });
-    
-    doc.setFontSize(18);
-    doc.setTextColor(textRgb[0], textRgb[1], textRgb[2], 0.7);
-    doc.text(`Theme: ${theme}`, pageWidth / 2, 130, { align: 'center' });
-
-    // Add Ghibli image if it exists, otherwise use first page preview
-    if (ghibliImage) {
-      doc.addImage(ghibliImage, 'PNG', pageWidth / 4, 150, pageWidth / 2, pageWidth / 2);
-    } else if (pages.length > 0) {
-      doc.addImage(pages[0].base64, 'PNG', pageWidth / 4, 150, pageWidth / 2, pageWidth / 2);
+  const regeneratePage = (pageId: number, prompt: string) => {
+    const { photo, activity } = pages.find(p => p.id === pageId) ?? {};
+    // Activity pages are redrawn in the browser as a fresh puzzle of the same kind.
+    if (activity) {
+      return updatePage(pageId, async () => ({ ...(await drawActivity({ ...activity, seed: newActivitySeed() }, activityContext())), id: pageId }));
     }
+    return updatePage(pageId, () => drawWithQualityGate(
+      // Asking for a new version means a new picture, never the cached one.
+      () => generatePage({ pageIndex: pageId, theme, prompt, photo, reference: photo ? undefined : characterImage ?? undefined, fresh: true }),
+      () => cleanupRef.current
+    ));
+  };
 
-    doc.setFontSize(12);
-    doc.setTextColor(textRgb[0], textRgb[1], textRgb[2], 0.5);
-    doc.text("Generated with AI Magic", pageWidth / 2, pageHeight - 20, { align: 'center' });
+  const addPagePhotos = async (files: File[]) => {
+    const photos = await Promise.all(files.map(async file => toSquarePng(await readFileAsDataUrl(file), REFERENCE_SIZE)));
+    setPagePhotos(current => [...current, ...photos].slice(0, MAX_PHOTO_PAGES));
+  };
 
-    // --- Coloring Pages ---
-    pages.forEach((page) => {
-      doc.addPage();
-      // Add a simple border
-      doc.setDrawColor(200, 200, 200);
-      doc.rect(10, 10, pageWidth - 20, pageHeight - 20);
-      
-      // Add the image
-      // We want to maintain aspect ratio. Our images are 1:1.
-      const imgSize = pageWidth - 40;
-      const x = 20;
-      const y = (pageHeight - imgSize) / 2;
-      
-      doc.addImage(page.base64, 'PNG', x, y, imgSize, imgSize);
-      
-      // Footer on each page
-      doc.setFontSize(10);
-      doc.setTextColor(150, 150, 150);
-      doc.text(`Page for ${childName}`, pageWidth / 2, pageHeight - 15, { align: 'center' });
+  // Added pages go after every other page, including any still waiting to be retried.
+  const nextPageId = () => Math.max(-1, ...pages.map(page => page.id), ...failedPageIds) + 1;
+
+  const addActivityPage = async (kind: ActivityKind, level: ActivityLevel) => {
+    setIsAddingActivity(true);
+    setError(null);
+    try {
+      const id = nextPageId();
+      const drawn = await drawActivity({ kind, level, seed: newActivitySeed() }, activityContext());
+      setPages(current => upsertPage(current, { ...drawn, id }));
+    } catch (err) {
+      console.error(`Error drawing ${kind} page:`, err);
+      setError(err instanceof Error && kind === 'dot-to-dot' ? err.message : "Oops! We couldn't draw that activity page. Please try again.");
+    } finally {
+      setIsAddingActivity(false);
+    }
+  };
+
+  const addColorByNumberPage = async (source: GeneratedPage) => {
+    setIsAddingActivity(true);
+    setError(null);
+    try {
+      const id = nextPageId();
+      const numbered = await createColorByNumberPage(source, numberPaletteColors(numberPalette, { bgColor, textColor, accentColor }));
+      setPages(current => upsertPage(current, { ...numbered, id }));
+    } catch (err) {
+      console.error(`Error numbering page ${source.id}:`, err);
+      setError("Oops! We couldn't find enough areas on that page to number. Try another page.");
+    } finally {
+      setIsAddingActivity(false);
+    }
+  };
+
+  const replacePageImage = (pageId: number, file: File) =>
+    updatePage(pageId, async () => {
+      const page = pages.find(p => p.id === pageId)!;
+      // The user's own art is scored but never redrawn.
+      const base64 = await toSquarePng(await readFileAsDataUrl(file));
+      return finishPage({ id: pageId, prompt: page.prompt, base64 }, cleanupRef.current);
     });
 
-    doc.save(`${childName}_Coloring_Book.pdf`);
+  const downloadPDF = async () => {
+    setIsExporting(true);
+    try {
+      await downloadBookPdf({
+        childName,
+        theme,
+        palette: { bgColor, textColor, accentColor },
+        coverImage: ghibliImage,
+        pages,
+        cover: coverDesign
+      }, { vector: vectorPdf, layout, colored: coloredPdf });
+    } catch (err) {
+      console.error("Error building PDF:", err);
+      setError("Oops! We couldn't build the PDF. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
+  const downloadSvg = (page: GeneratedPage, index: number) =>
+    downloadPageSvg(page, `${childName}_Page_${index + 1}.svg`).catch(err => {
+      console.error(`Error tracing page ${page.id}:`, err);
+      setError("Oops! We couldn't convert that page to SVG. Please try again.");
+    });
+
+  const coloringPage = pages.find(page => page.id === coloringPageId);
+
+  // Photo pages come after the theme pages, so they get their own numbering in the progress bar.
+  const progressLabels: Record<number, string> = {};
+  Object.keys(bookSources).map(Number).filter(id => bookSources[id].photo).sort((a, b) => a - b)
+    .forEach((id, index) => { progressLabels[id] = `Photo ${index + 1}`; });
+
   return (
     <div className="min-h-screen bg-[#fdfcfb] text-slate-900 font-sans selection:bg-orange-100 relative overflow-x-hidden">
       <FireworksBackground />
@@ -451,322 +995,445 @@ export default function App() {
         <p className="text-slate-500 text-lg max-w-2xl mx-auto">
           Turn any imagination into a personalized coloring adventure for your little ones.
         </p>
+        <nav className="relative z-10 inline-flex mt-8 p-1 rounded-2xl bg-slate-100">
+          {([
+            { id: 'create', label: 'Create', icon: Paintbrush },
+            { id: 'library', label: 'My Books', icon: LibraryIcon },
+            { id: 'usage', label: 'Usage', icon: BarChart3 }
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-5 py-2 rounded-xl text-sm font-bold transition-all ${
+                view === id ? 'bg-white text-orange-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </nav>
       </header>
 
       <main className="max-w-4xl mx-auto py-12 px-6">
-        {/* Input Section */}
-        <section className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-sm border border-slate-100 p-8 md:p-10 mb-12 relative z-10">
-          <form onSubmit={handleGenerate} className="space-y-8">
-            <div className="grid md:grid-cols-2 gap-8">
-              <div className="space-y-3">
-                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
-                  <User className="w-4 h-4 text-orange-500" />
-                  Child's Name
-                </label>
-                <input 
-                  type="text"
-                  value={childName}
-                  onChange={(e) => setChildName(e.target.value)}
-                  placeholder="e.g. Aaru"
-                  className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg"
-                  required
-                />
-              </div>
-              <div className="space-y-3">
-                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
-                  <Layers className="w-4 h-4 text-orange-500" />
-                  Number of Pages
-                </label>
-                <select
-                  value={pageCount}
-                  onChange={(e) => setPageCount(Number(e.target.value))}
-                  className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg appearance-none cursor-pointer"
-                >
-                  {[1, 2, 3, 4, 5].map(num => (
-                    <option key={num} value={num}>{num} Page{num > 1 ? 's' : ''}</option>
-                  ))}
-                </select>
-              </div>
-            </div>
-
-            <div className="space-y-3">
-                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
-                  <Palette className="w-4 h-4 text-orange-500" />
-                  Book Theme
-                </label>
-                <input 
-                  type="text"
-                  value={theme}
-                  onChange={(e) => setTheme(e.target.value)}
-                  placeholder="e.g. Space Dinosaurs"
-                  className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg"
-                  required
-                />
-                <div className="flex flex-wrap gap-2 pt-2">
-                  {PRESET_THEMES.map((preset) => (
-                    <button
-                      key={preset}
-                      type="button"
-                      onClick={() => setTheme(preset)}
-                      className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${
-                        theme === preset 
-                          ? 'bg-orange-500 text-white shadow-sm' 
-                          : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
-                      }`}
+        {view === 'library' ? (
+          <Library onOpen={openBook} pdfOptions={{ vector: vectorPdf, layout, colored: coloredPdf }} />
+        ) : view === 'usage' ? (
+          <UsageDashboard />
+        ) : (
+          <>
+            {/* Input Section */}
+            <section className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-sm border border-slate-100 p-8 md:p-10 mb-12 relative z-10">
+              <form onSubmit={handleGenerate} className="space-y-8">
+                <div className="grid md:grid-cols-2 gap-8">
+                  <div className="space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                      <User className="w-4 h-4 text-orange-500" />
+                      Child's Name
+                    </label>
+                    <input 
+                      type="text"
+                      value={childName}
+                      onChange={(e) => setChildName(e.target.value)}
+                      placeholder="e.g. Aaru"
+                      className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                      <Layers className="w-4 h-4 text-orange-500" />
+                      Number of Pages
+                    </label>
+                    <select
+                      value={pageCount}
+                      onChange={(e) => setPageCount(Number(e.target.value))}
+                      className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg appearance-none cursor-pointer"
                     >
-                      {preset}
-                    </button>
-                  ))}
+                      {PAGE_COUNT_OPTIONS.map(num => (
+                        <option key={num} value={num}>{num} Page{num > 1 ? 's' : ''}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
-              </div>
-
-            {/* Photo Upload Section */}
-            <div className="space-y-4">
-              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
-                <ImageIcon className="w-4 h-4 text-orange-500" />
-                Cover Photo (Optional - Will be Ghibli-fied!)
-              </label>
-              <div className="flex items-center gap-6">
-                <label className="flex flex-col items-center justify-center w-32 h-32 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:bg-slate-50 transition-all group overflow-hidden">
-                  {uploadedPhoto ? (
-                    <img src={uploadedPhoto} className="w-full h-full object-cover" alt="Upload preview" />
-                  ) : (
-                    <>
-                      <Upload className="w-6 h-6 text-slate-400 group-hover:text-orange-500 mb-2" />
-                      <span className="text-[10px] font-bold text-slate-400 uppercase">Upload</span>
-                    </>
-                  )}
-                  <input type="file" className="hidden" accept="image/*" onChange={handlePhotoUpload} />
-                </label>
-                {uploadedPhoto && (
-                  <button 
-                    type="button" 
-                    onClick={() => setUploadedPhoto(null)}
-                    className="text-xs font-bold text-red-500 hover:text-red-600 uppercase tracking-wider"
-                  >
-                    Remove Photo
-                  </button>
-                )}
-                <p className="text-xs text-slate-400 max-w-[200px]">
-                  Upload a photo to generate a magical Studio Ghibli style illustration for your cover page!
-                </p>
-              </div>
-            </div>
-
-            {/* Template Selection */}
-            <div className="space-y-6">
-              <div className="flex items-center justify-between">
-                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
-                  <BookOpen className="w-4 h-4 text-orange-500" />
-                  Customize Cover
-                </label>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                {/* Presets */}
+
                 <div className="space-y-3">
-                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Presets</span>
-                  <div className="grid grid-cols-2 gap-3">
-                    {TEMPLATES.map((template) => (
-                      <button
-                        key={template.id}
-                        type="button"
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                      <Palette className="w-4 h-4 text-orange-500" />
+                      Book Theme
+                    </label>
+                    <input 
+                      type="text"
+                      value={theme}
+                      onChange={(e) => {
+                        setTheme(e.target.value);
+                        setSelectedPackId(null);
+                      }}
+                      placeholder="e.g. Space Dinosaurs"
+                      className="w-full px-5 py-4 rounded-2xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 transition-all outline-none text-lg"
+                      required
+                    />
+                    <ThemePackPanel
+                      packs={packs}
+                      selectedId={selectedPackId}
+                      onSelect={selectPack}
+                      onSave={savePack}
+                      onDelete={deletePack}
+                      pageCount={pageCount}
+                    />
+                  </div>
+
+                <DifficultyPicker difficulty={difficulty} onChange={setDifficulty} />
+
+                {/* Story Mode */}
+                <label className="flex items-start gap-4 p-5 rounded-2xl bg-slate-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={storyMode}
+                    onChange={(e) => setStoryMode(e.target.checked)}
+                    className="mt-1 w-5 h-5 accent-orange-500 cursor-pointer"
+                  />
+                  <span>
+                    <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                      <BookOpen className="w-4 h-4 text-orange-500" />
+                      Story Mode
+                    </span>
+                    <span className="block text-xs text-slate-400 mt-1">
+                      Write a short story starring {childName || 'your child'}, with one page per scene and the words printed under each picture. You can edit the story before anything is drawn.
+                    </span>
+                  </span>
+                </label>
+
+                {/* Photo Upload Section */}
+                <div className="space-y-4">
+                  <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                    <ImageIcon className="w-4 h-4 text-orange-500" />
+                    Cover Photo (Optional - Will be Ghibli-fied!)
+                  </label>
+                  <div className="flex items-center gap-6">
+                    <label className="flex flex-col items-center justify-center w-32 h-32 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:bg-slate-50 transition-all group overflow-hidden">
+                      {uploadedPhoto ? (
+                        <img src={uploadedPhoto} className="w-full h-full object-cover" alt="Upload preview" />
+                      ) : (
+                        <>
+                          <Upload className="w-6 h-6 text-slate-400 group-hover:text-orange-500 mb-2" />
+                          <span className="text-[10px] font-bold text-slate-400 uppercase">Upload</span>
+                        </>
+                      )}
+                      <input type="file" className="hidden" accept="image/*" onChange={handlePhotoUpload} />
+                    </label>
+                    {uploadedPhoto && (
+                      <button 
+                        type="button" 
                         onClick={() => {
-                          setBgColor(template.bgColor);
-                          setTextColor(template.textColor);
-                          setAccentColor(template.accentColor);
+                          setUploadedPhoto(null);
+                          if (characterSource === 'photo') setCharacterSource('none');
                         }}
-                        className={`p-3 rounded-xl border-2 transition-all text-left flex items-center gap-3 ${
-                          bgColor === template.bgColor && textColor === template.textColor
-                            ? 'border-orange-500 bg-orange-50/30' 
-                            : 'border-slate-100 hover:border-slate-200 bg-white'
-                        }`}
+                        className="text-xs font-bold text-red-500 hover:text-red-600 uppercase tracking-wider"
                       >
-                        <div className="w-8 h-8 rounded-lg border border-slate-200 shrink-0" style={{ backgroundColor: template.bgColor }} />
-                        <span className={`text-sm font-bold ${bgColor === template.bgColor ? 'text-orange-600' : 'text-slate-600'}`}>
-                          {template.name}
-                        </span>
+                        Remove Photo
                       </button>
-                    ))}
+                    )}
+                    <p className="text-xs text-slate-400 max-w-[200px]">
+                      Upload a photo to generate a magical Studio Ghibli style illustration for your cover page!
+                    </p>
                   </div>
                 </div>
 
-                {/* Custom Pickers */}
-                <div className="space-y-3">
-                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Custom Palette</span>
-                  <div className="flex gap-6">
-                    <div className="flex flex-col gap-2 items-center">
-                      <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
-                        <input 
-                          type="color" 
-                          value={bgColor}
-                          onChange={(e) => setBgColor(e.target.value)}
-                          className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
-                        />
-                      </div>
-                      <span className="text-[10px] font-bold text-slate-500 uppercase">Background</span>
-                    </div>
-                    <div className="flex flex-col gap-2 items-center">
-                      <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
-                        <input 
-                          type="color" 
-                          value={textColor}
-                          onChange={(e) => setTextColor(e.target.value)}
-                          className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
-                        />
+                <PhotoPagesPicker
+                  photos={pagePhotos}
+                  onAdd={addPagePhotos}
+                  onRemove={(index) => setPagePhotos(current => current.filter((_, i) => i !== index))}
+                  max={MAX_PHOTO_PAGES}
+                />
+
+                <CharacterPicker
+                  source={characterSource}
+                  onSourceChange={setCharacterSource}
+                  sheet={characterSheet}
+                  onSheetChange={setCharacterSheet}
+                  hasPhoto={Boolean(uploadedPhoto)}
+                />
+
+                {/* Template Selection */}
+                <div className="space-y-6">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+                      <BookOpen className="w-4 h-4 text-orange-500" />
+                      Customize Cover
+                    </label>
+                  </div>
+              
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                    {/* Presets */}
+                    <div className="space-y-3">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Presets</span>
+                      <div className="grid grid-cols-2 gap-3">
+                        {TEMPLATES.map((template) => (
+                          <button
+                            key={template.id}
+                            type="button"
+                            onClick={() => {
+                              setBgColor(template.bgColor);
+                              setTextColor(template.textColor);
+                              setAccentColor(template.accentColor);
+                            }}
+                            className={`p-3 rounded-xl border-2 transition-all text-left flex items-center gap-3 ${
+                              bgColor === template.bgColor && textColor === template.textColor
+                                ? 'border-orange-500 bg-orange-50/30' 
+                                : 'border-slate-100 hover:border-slate-200 bg-white'
+                            }`}
+                          >
+                            <div className="w-8 h-8 rounded-lg border border-slate-200 shrink-0" style={{ backgroundColor: template.bgColor }} />
+                            <span className={`text-sm font-bold ${bgColor === template.bgColor ? 'text-orange-600' : 'text-slate-600'}`}>
+                              {template.name}
+                            </span>
+                          </button>
+                        ))}
                       </div>
-                      <span className="text-[10px] font-bold text-slate-500 uppercase">Text</span>
                     </div>
-                    <div className="flex flex-col gap-2 items-center">
-                      <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
-                        <input 
-                          type="color" 
-                          value={accentColor}
-                          onChange={(e) => setAccentColor(e.target.value)}
-                          className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
-                        />
+
+                    {/* Custom Pickers */}
+                    <div className="space-y-3">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Custom Palette</span>
+                      <div className="flex gap-6">
+                        <div className="flex flex-col gap-2 items-center">
+                          <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
+                            <input 
+                              type="color" 
+                              value={bgColor}
+                              onChange={(e) => setBgColor(e.target.value)}
+                              className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
+                            />
+                          </div>
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">Background</span>
+                        </div>
+                        <div className="flex flex-col gap-2 items-center">
+                          <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
+                            <input 
+                              type="color" 
+                              value={textColor}
+                              onChange={(e) => setTextColor(e.target.value)}
+                              className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
+                            />
+                          </div>
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">Text</span>
+                        </div>
+                        <div className="flex flex-col gap-2 items-center">
+                          <div className="relative w-12 h-12 rounded-full overflow-hidden border-2 border-slate-200 shadow-sm cursor-pointer hover:scale-105 transition-transform">
+                            <input 
+                              type="color" 
+                              value={accentColor}
+                              onChange={(e) => setAccentColor(e.target.value)}
+                              className="absolute inset-0 w-[150%] h-[150%] -translate-x-1/4 -translate-y-1/4 cursor-pointer"
+                            />
+                          </div>
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">Accent</span>
+                        </div>
                       </div>
-                      <span className="text-[10px] font-bold text-slate-500 uppercase">Accent</span>
                     </div>
                   </div>
                 </div>
-              </div>
-            </div>
 
-            <button 
-              type="submit"
-              disabled={isGenerating}
-              className="w-full py-5 rounded-2xl bg-slate-900 text-white font-bold text-xl flex items-center justify-center gap-3 hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-lg shadow-slate-200 active:scale-[0.98]"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="w-6 h-6 animate-spin" />
-                  Generating Magic...
-                </>
-              ) : (
-                <>
-                  <Paintbrush className="w-6 h-6" />
-                  Create My Coloring Book
-                </>
-              )}
-            </button>
-          </form>
-        </section>
-
-        {/* Progress & Error */}
-        <AnimatePresence>
-          {isGenerating && (
-            <motion.div 
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0 }}
-              className="mb-12 space-y-4"
-            >
-              <div className="flex justify-between items-end mb-2">
-                <span className="text-slate-600 font-medium">Drawing page {Math.min(Math.floor(progress / (100 / pageCount)) + 1, pageCount)} of {pageCount}...</span>
-                <span className="text-orange-600 font-bold">{Math.round(progress)}%</span>
-              </div>
-              <div className="h-3 w-full bg-slate-100 rounded-full overflow-hidden">
-                <motion.div 
-                  className="h-full bg-orange-500"
-                  initial={{ width: 0 }}
-                  animate={{ width: `${progress}%` }}
-                  transition={{ duration: 0.5 }}
+                <ChildProfilesPanel
+                  profiles={profiles}
+                  onSave={saveProfile}
+                  onDelete={(id) => setProfiles(current => current.filter(profile => profile.id !== id))}
+                  onUse={applyProfile}
+                  theme={theme}
+                  pageCount={pageCount}
+                  onStartBatch={startBatch}
+                  onCancelBatch={() => batchController.current?.abort()}
+                  progress={batchProgress}
+                  isBatchRunning={isBatchRunning}
+                  busy={isGenerating || isWritingStory}
                 />
-              </div>
-              <p className="text-center text-slate-400 text-sm italic">
-                "Our AI artists are working hard on your thick lines!"
-              </p>
-            </motion.div>
-          )}
-
-          {error && (
-            <motion.div 
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="mb-12 p-4 rounded-2xl bg-red-50 border border-red-100 text-red-600 flex items-center gap-3"
-            >
-              <AlertCircle className="w-5 h-5 shrink-0" />
-              <p className="font-medium">{error}</p>
-              <button 
-                onClick={() => handleGenerate({ preventDefault: () => {} } as any)}
-                className="ml-auto p-2 hover:bg-red-100 rounded-lg transition-colors"
-              >
-                <RefreshCw className="w-4 h-4" />
-              </button>
-            </motion.div>
-          )}
-        </AnimatePresence>
-
-        {/* Results Section */}
-        {pages.length > 0 && (
-          <motion.section 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="space-y-10"
-          >
-            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-              <div>
-                <h2 className="text-2xl font-bold text-slate-900">Your Coloring Book is Ready!</h2>
-                <p className="text-slate-500">Preview the pages below before downloading.</p>
-              </div>
-              <button 
-                onClick={downloadPDF}
-                className="flex items-center justify-center gap-2 px-8 py-4 bg-orange-500 text-white font-bold rounded-2xl hover:bg-orange-600 transition-all shadow-lg shadow-orange-100 active:scale-[0.98]"
-              >
-                <Download className="w-5 h-5" />
-                Download PDF
-              </button>
-            </div>
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-              {pages.map((page, idx) => (
+                <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reuseCached}
+                    onChange={(e) => setReuseCached(e.target.checked)}
+                    className="accent-orange-500"
+                  />
+                  Reuse pictures already drawn for the same theme and settings (faster, no extra cost)
+                </label>
+
+                <button 
+                  type="submit"
+                  disabled={isGenerating || isWritingStory || isBatchRunning}
+                  className="w-full py-5 rounded-2xl bg-slate-900 text-white font-bold text-xl flex items-center justify-center gap-3 hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-lg shadow-slate-200 active:scale-[0.98]"
+                >
+                  {isGenerating || isWritingStory ? (
+                    <>
+                      <Loader2 className="w-6 h-6 animate-spin" />
+                      {isWritingStory ? 'Writing the Story...' : 'Generating Magic...'}
+                    </>
+                  ) : storyMode ? (
+                    <>
+                      <BookOpen className="w-6 h-6" />
+                      Write My Story
+                    </>
+                  ) : (
+                    <>
+                      <Paintbrush className="w-6 h-6" />
+                      Create My Coloring Book
+                    </>
+                  )}
+                </button>
+              </form>
+            </section>
+
+            {storyDraft && !isGenerating && (
+              <StoryEditor
+                scenes={storyDraft}
+                onChange={setStoryDraft}
+                onRewrite={writeStoryDraft}
+                onDraw={() => startBook(storyDraft)}
+                rewriting={isWritingStory}
+              />
+            )}
+
+            {/* Progress & Error */}
+            <AnimatePresence>
+              {isGenerating && <GenerationProgress statuses={pageStatuses} labels={progressLabels} onCancel={cancelGeneration} />}
+
+              {error && themeSuggestions?.forError === error ? (
+                <ThemeSuggestions
+                  message={error}
+                  packs={themeSuggestions.packs}
+                  onPick={(pack) => {
+                    selectPack(pack);
+                    setError(null);
+                  }}
+                />
+              ) : error && (
                 <motion.div 
-                  key={page.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: idx * 0.1 }}
-                  className="group relative aspect-square bg-white rounded-2xl border border-slate-100 overflow-hidden shadow-sm hover:shadow-md transition-all"
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="mb-12 p-4 rounded-2xl bg-red-50 border border-red-100 text-red-600 flex items-center gap-3"
                 >
-                  <img 
-                    src={page.base64} 
-                    alt={`Coloring page ${idx + 1}`}
-                    className="w-full h-full object-contain p-4"
-                  />
-                  <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-white/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
-                    <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Page {idx + 1}</span>
-                  </div>
+                  <AlertCircle className="w-5 h-5 shrink-0" />
+                  <p className="font-medium">{error}</p>
+                  {!isGenerating && (failedPageIds.length > 0 || coverFailed) && (
+                    <button 
+                      onClick={retryFailed}
+                      className="ml-auto shrink-0 flex items-center gap-2 px-3 py-2 text-sm font-bold hover:bg-red-100 rounded-lg transition-colors"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Retry failed pages
+                    </button>
+                  )}
                 </motion.div>
-              ))}
-              
-              {/* Cover Preview Card */}
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.5 }}
-                className="aspect-square rounded-2xl flex flex-col items-center justify-center p-6 text-center shadow-xl border border-slate-100"
-                style={{ backgroundColor: bgColor }}
+              )}
+            </AnimatePresence>
+
+            {/* Results Section */}
+            {pages.length > 0 && (
+              <motion.section 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="space-y-10"
               >
-                <BookOpen className="w-12 h-12 mb-4" style={{ color: accentColor }} />
-                
-                {ghibliImage ? (
-                  <div className="w-32 h-32 rounded-xl overflow-hidden mb-4 border-2 border-white/50 shadow-lg">
-                    <img src={ghibliImage} className="w-full h-full object-cover" alt="Ghibli cover" />
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-slate-900">Your Coloring Book is Ready!</h2>
+                    <p className="text-slate-500">Preview the pages below before downloading.</p>
+                  </div>
+                  <div className="flex flex-col items-stretch md:items-end gap-2">
+                    <button 
+                      onClick={downloadPDF}
+                      disabled={isExporting}
+                      className="flex items-center justify-center gap-2 px-8 py-4 bg-orange-500 text-white font-bold rounded-2xl hover:bg-orange-600 disabled:bg-orange-300 transition-all shadow-lg shadow-orange-100 active:scale-[0.98]"
+                    >
+                      {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+                      Download PDF
+                    </button>
+                    <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={vectorPdf}
+                        onChange={(e) => setVectorPdf(e.target.checked)}
+                        className="accent-orange-500"
+                      />
+                      Vector artwork (crisp lines at any size)
+                    </label>
+                    {pages.some(page => page.colored) && (
+                      <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={coloredPdf}
+                          onChange={(e) => setColoredPdf(e.target.checked)}
+                          className="accent-orange-500"
+                        />
+                        Print colored-in pages in color
+                      </label>
+                    )}
                   </div>
-                ) : null}
+                </div>
+
+                <LayoutPanel layout={layout} onChange={setLayout} />
 
-                <h3 className="text-xl font-bold mb-1" style={{ color: textColor }}>{childName}'s</h3>
-                <p className="text-sm uppercase tracking-widest font-medium opacity-60" style={{ color: textColor }}>Coloring Book</p>
-                <div className={`mt-6 flex items-center gap-2 text-xs font-mono bg-white/50 px-3 py-1 rounded-full`} style={{ color: accentColor }}>
-                  <CheckCircle2 className="w-3 h-3" />
-                  {pages.length} CUSTOM PAGES
+                <CoverDesigner
+                  design={coverDesign}
+                  onChange={setCoverDesign}
+                  layout={layout}
+                  content={{
+                    childName,
+                    theme,
+                    palette: { bgColor, textColor, accentColor },
+                    art: ghibliImage ?? pages[0]?.base64 ?? null,
+                    pageCount: pages.length
+                  }}
+                />
+
+                <CleanupPanel settings={cleanup} onChange={setCleanup} />
+
+                <ActivityPanel
+                  onAdd={addActivityPage}
+                  busy={isAddingActivity || isGenerating}
+                  numberPalette={numberPalette}
+                  onNumberPaletteChange={setNumberPalette}
+                  unavailable={{
+                    ...(childName.trim() ? {} : { tracing: "Enter the child's name first." }),
+                    ...(pages.some(page => !page.activity) ? {} : { 'dot-to-dot': 'Needs a coloring page to trace.' })
+                  }}
+                />
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+                  {pages.map((page, idx) => (
+                    <PageCard
+                      key={page.id}
+                      page={page}
+                      index={idx}
+                      busy={busyPageIds.includes(page.id)}
+                      onRegenerate={(prompt) => regeneratePage(page.id, prompt)}
+                      onReplace={(file) => replacePageImage(page.id, file)}
+                      onDownloadSvg={() => downloadSvg(page, idx)}
+                      onColor={() => setColoringPageId(page.id)}
+                      onNumber={page.activity || page.colorKey || isGenerating || isAddingActivity ? undefined : () => addColorByNumberPage(page)}
+                    />
+                  ))}
                 </div>
-              </motion.div>
-            </div>
-          </motion.section>
+              </motion.section>
+            )}
+          </>
         )}
       </main>
 
+      {coloringPage && (
+        <ColoringMode
+          page={coloringPage}
+          filename={`${childName}_Page_${pages.indexOf(coloringPage) + 1}_Colored.png`}
+          onSave={(colored) => {
+            setPages(current => current.map(page => page.id === coloringPage.id ? { ...page, colored } : page));
+            setColoringPageId(null);
+          }}
+          onClose={() => setColoringPageId(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="max-w-4xl mx-auto py-12 px-6 border-t border-slate-100 text-center">
         <p className="text-slate-400 text-sm">
@@ -0,0 +1,354 @@
+import { getImagePixels } from './images.ts';
+import { binarize, luminance } from './lineArt.ts';
+import { polygonArea, traceBitmap, type Point } from './trace.ts';
+import type { Activity, ActivityKind, ActivityLevel, GeneratedPage } from './types.ts';
+
+/** Activity pages match the square AI pages, so previews and the PDF treat them alike. */
+const SIZE = 1024;
+const FONT = '"Comic Sans MS", "Chalkboard SE", "Arial Rounded MT Bold", Arial, sans-serif';
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  tracing: 'Name tracing',
+  maze: 'Maze',
+  'dot-to-dot': 'Dot-to-dot',
+  counting: 'Counting'
+};
+
+export interface ActivityContext {
+  childName: string;
+  /** Coloring pages a dot-to-dot can be traced from. */
+  artPages: string[];
+}
+
+/** mulberry32: a tiny seeded PRNG returning floats in [0, 1), so a seed always redraws the same puzzle. */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const newActivitySeed = () => Math.floor(Math.random() * 2 ** 31);
+
+function createPage(title: string) {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  ctx.fillStyle = '#000000';
+  ctx.strokeStyle = '#000000';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = `bold 56px ${FONT}`;
+  ctx.fillText(title, SIZE / 2, 100, SIZE - 80);
+  return { canvas, ctx };
+}
+
+// --- Name tracing ---
+
+const TRACING_ROWS: Record<ActivityLevel, number> = { easy: 3, medium: 4, hard: 5 };
+
+/** The name once in solid letters, then in dotted letters to trace; hard sheets end with an empty row. */
+function drawTracing(ctx: CanvasRenderingContext2D, childName: string, level: ActivityLevel) {
+  const name = childName.trim() || 'My Name';
+  const rows = TRACING_ROWS[level];
+  const top = 150;
+  const rowHeight = (SIZE - 60 - top) / rows;
+
+  ctx.font = `bold 100px ${FONT}`;
+  const fontSize = Math.min(rowHeight * 0.75, (100 * (SIZE - 160)) / ctx.measureText(name).width);
+  ctx.font = `bold ${fontSize}px ${FONT}`;
+
+  for (let row = 0; row < rows; row++) {
+    const baseline = top + rowHeight * (row + 0.85);
+    const capLine = baseline - fontSize * 0.72;
+    ctx.lineWidth = 3;
+    ctx.setLineDash([]);
+    for (const y of [capLine, baseline]) {
+      ctx.beginPath();
+      ctx.moveTo(60, y);
+      ctx.lineTo(SIZE - 60, y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([16, 14]);
+    ctx.beginPath();
+    ctx.moveTo(60, (capLine + baseline) / 2);
+    ctx.lineTo(SIZE - 60, (capLine + baseline) / 2);
+    ctx.stroke();
+
+    if (row === 0) {
+      ctx.fillText(name, SIZE / 2, baseline);
+    } else if (!(level === 'hard' && row === rows - 1)) {
+      // Near-zero dashes with round caps stroke the letter outlines as dots.
+      ctx.setLineDash([0.1, Math.max(10, fontSize / 9)]);
+      ctx.lineWidth = Math.max(5, fontSize / 22);
+      ctx.strokeText(name, SIZE / 2, baseline);
+    }
+  }
+  ctx.setLineDash([]);
+}
+
+// --- Maze ---
+
+const MAZE_SIZE: Record<ActivityLevel, number> = { easy: 7, medium: 12, hard: 18 };
+
+/** A perfect maze from a randomized depth-first search, entered at the top left and left at the bottom right. */
+function drawMaze(ctx: CanvasRenderingContext2D, level: ActivityLevel, random: () => number) {
+  const n = MAZE_SIZE[level];
+  const rightWall = new Uint8Array(n * n).fill(1);
+  const bottomWall = new Uint8Array(n * n).fill(1);
+  const visited = new Uint8Array(n * n);
+  const stack = [0];
+  visited[0] = 1;
+  while (stack.length) {
+    const cell = stack[stack.length - 1];
+    const x = cell % n;
+    const y = Math.floor(cell / n);
+    const next = [
+      x > 0 ? cell - 1 : -1,
+      x < n - 1 ? cell + 1 : -1,
+      y > 0 ? cell - n : -1,
+      y < n - 1 ? cell + n : -1
+    ].filter(neighbor => neighbor >= 0 && !visited[neighbor]);
+    if (!next.length) {
+      stack.pop();
+      continue;
+    }
+    const neighbor = next[Math.floor(random() * next.length)];
+    if (neighbor === cell + 1) rightWall[cell] = 0;
+    else if (neighbor === cell - 1) rightWall[neighbor] = 0;
+    else if (neighbor === cell + n) bottomWall[cell] = 0;
+    else bottomWall[neighbor] = 0;
+    visited[neighbor] = 1;
+    stack.push(neighbor);
+  }
+
+  const side = 780;
+  const left = (SIZE - side) / 2;
+  const top = 170;
+  const cellSize = side / n;
+  ctx.lineWidth = Math.max(5, cellSize * 0.12);
+  ctx.lineCap = 'square';
+  ctx.beginPath();
+  // Outer walls, leaving the entrance and exit open.
+  ctx.moveTo(left + cellSize, top);
+  ctx.lineTo(left + side, top);
+  ctx.lineTo(left + side, top + side);
+  ctx.moveTo(left + side - cellSize, top + side);
+  ctx.lineTo(left, top + side);
+  ctx.lineTo(left, top);
+  for (let cell = 0; cell < n * n; cell++) {
+    const x = left + (cell % n) * cellSize;
+    const y = top + Math.floor(cell / n) * cellSize;
+    if (rightWall[cell] && cell % n < n - 1) {
+      ctx.moveTo(x + cellSize, y);
+      ctx.lineTo(x + cellSize, y + cellSize);
+    }
+    if (bottomWall[cell] && cell < n * (n - 1)) {
+      ctx.moveTo(x, y + cellSize);
+      ctx.lineTo(x + cellSize, y + cellSize);
+    }
+  }
+  ctx.stroke();
+  ctx.lineCap = 'round';
+
+  ctx.font = `bold 30px ${FONT}`;
+  ctx.fillText('Start', left + cellSize / 2, top - 16);
+  ctx.fillText('Finish', left + side - cellSize / 2, top + side + 40);
+}
+
+// --- Counting ---
+
+type Shape = 'star' | 'heart' | 'ball' | 'triangle' | 'flower';
+
+const SHAPES: Shape[] = ['star', 'heart', 'ball', 'triangle', 'flower'];
+
+const COUNTING: Record<ActivityLevel, { kinds: number; min: number; max: number; radius: number }> = {
+  easy: { kinds: 2, min: 1, max: 5, radius: 46 },
+  medium: { kinds: 3, min: 3, max: 8, radius: 36 },
+  hard: { kinds: 4, min: 5, max: 12, radius: 27 }
+};
+
+function shapePath(ctx: CanvasRenderingContext2D, shape: Shape, cx: number, cy: number, r: number) {
+  ctx.beginPath();
+  switch (shape) {
+    case 'star':
+      for (let i = 0; i < 10; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const radius = i % 2 ? r * 0.45 : r;
+        ctx.lineTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+      }
+      ctx.closePath();
+      break;
+    case 'heart':
+      ctx.moveTo(cx, cy + r * 0.85);
+      ctx.bezierCurveTo(cx - r * 1.3, cy, cx - r * 0.7, cy - r * 1.1, cx, cy - r * 0.4);
+      ctx.bezierCurveTo(cx + r * 0.7, cy - r * 1.1, cx + r * 1.3, cy, cx, cy + r * 0.85);
+      break;
+    case 'ball':
+      ctx.arc(cx, cy, r * 0.85, 0, Math.PI * 2);
+      ctx.moveTo(cx - r * 0.85, cy);
+      ctx.quadraticCurveTo(cx, cy + r * 0.4, cx + r * 0.85, cy);
+      break;
+    case 'triangle':
+      ctx.moveTo(cx, cy - r);
+      ctx.lineTo(cx + r * 0.95, cy + r * 0.7);
+      ctx.lineTo(cx - r * 0.95, cy + r * 0.7);
+      ctx.closePath();
+      break;
+    case 'flower':
+      for (let i = 0; i < 5; i++) {
+        const angle = (i * 2 * Math.PI) / 5;
+        ctx.moveTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+        ctx.arc(cx + Math.cos(angle) * r * 0.6, cy + Math.sin(angle) * r * 0.6, r * 0.4, angle, angle + Math.PI * 2);
+      }
+      ctx.moveTo(cx + r * 0.3, cy);
+      ctx.arc(cx, cy, r * 0.3, 0, Math.PI * 2);
+      break;
+  }
+}
+
+/** Scattered outline shapes to color and count, with an answer box for each kind. */
+function drawCounting(ctx: CanvasRenderingContext2D, level: ActivityLevel, random: () => number) {
+  const { kinds, min, max, radius } = COUNTING[level];
+  const shapes = [...SHAPES].sort(() => random() - 0.5).slice(0, kinds);
+  const placed: Point[] = [];
+  ctx.lineWidth = 6;
+
+  for (const shape of shapes) {
+    const count = min + Math.floor(random() * (max - min + 1));
+    for (let i = 0; i < count; i++) {
+      // Rejection sampling; on a crowded page a shape may land close to another rather than be dropped.
+      let point: Point = [0, 0];
+      for (let attempt = 0; attempt < 200; attempt++) {
+        point = [80 + radius + random() * (SIZE - 160 - 2 * radius), 150 + radius + random() * (600 - 2 * radius)];
+        if (placed.every(([x, y]) => Math.hypot(x - point[0], y - point[1]) > radius * 2.3)) break;
+      }
+      placed.push(point);
+      shapePath(ctx, shape, point[0], point[1], radius);
+      ctx.stroke();
+    }
+  }
+
+  const legendTop = 800;
+  const slot = (SIZE - 120) / shapes.length;
+  ctx.font = `bold 44px ${FONT}`;
+  shapes.forEach((shape, index) => {
+    const cx = 60 + slot * (index + 0.5);
+    shapePath(ctx, shape, cx - 70, legendTop + 60, 34);
+    ctx.stroke();
+    ctx.fillText('=', cx - 8, legendTop + 75);
+    ctx.beginPath();
+    ctx.roundRect(cx + 22, legendTop + 20, 80, 80, 12);
+    ctx.stroke();
+  });
+}
+
+// --- Dot-to-dot ---
+
+const DOT_COUNT: Record<ActivityLevel, number> = { easy: 15, medium: 30, hard: 50 };
+
+/** Points spaced evenly along a closed outline. */
+function resample(loop: Point[], count: number): Point[] {
+  const lengths = loop.map((point, i) => {
+    const next = loop[(i + 1) % loop.length];
+    return Math.hypot(next[0] - point[0], next[1] - point[1]);
+  });
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const points: Point[] = [];
+  let segment = 0;
+  let walked = 0;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / count;
+    while (walked + lengths[segment] < target) walked += lengths[segment++];
+    const t = lengths[segment] ? (target - walked) / lengths[segment] : 0;
+    const [x1, y1] = loop[segment];
+    const [x2, y2] = loop[(segment + 1) % loop.length];
+    points.push([x1 + (x2 - x1) * t, y1 + (y2 - y1) * t]);
+  }
+  return points;
+}
+
+/** Numbered dots around the silhouette of a coloring page's biggest shape. */
+async function drawDotToDot(ctx: CanvasRenderingContext2D, source: string, level: ActivityLevel, random: () => number) {
+  const { data, width, height } = await getImagePixels(source, 512);
+  const art = traceBitmap(binarize(luminance(data), width, height, 128, false), { tolerance: 2 });
+  // Outlines that span the whole page are borders drawn around the picture, not a shape.
+  const outline = art.contours
+    .filter(loop => {
+      const xs = loop.map(([x]) => x);
+      const ys = loop.map(([, y]) => y);
+      return Math.max(...xs) - Math.min(...xs) < width * 0.9 || Math.max(...ys) - Math.min(...ys) < height * 0.9;
+    })
+    .reduce<Point[] | null>((best, loop) => !best || polygonArea(loop) > polygonArea(best) ? loop : best, null);
+  if (!outline || polygonArea(outline) < width * height * 0.02) {
+    throw new Error('This page has no clear outline to turn into a dot-to-dot.');
+  }
+
+  const count = DOT_COUNT[level];
+  const start = Math.floor(random() * outline.length);
+  const dots = resample([...outline.slice(start), ...outline.slice(0, start)], count);
+
+  const xs = dots.map(([x]) => x);
+  const ys = dots.map(([, y]) => y);
+  const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+  const scale = Math.min(760 / (Math.max(...xs) - minX || 1), 700 / (Math.max(...ys) - minY || 1));
+  const offsetX = (SIZE - (Math.max(...xs) - minX) * scale) / 2;
+  const offsetY = 200 + (700 - (Math.max(...ys) - minY) * scale) / 2;
+  const placed = dots.map(([x, y]): Point => [offsetX + (x - minX) * scale, offsetY + (y - minY) * scale]);
+  const cx = placed.reduce((sum, [x]) => sum + x, 0) / placed.length;
+  const cy = placed.reduce((sum, [, y]) => sum + y, 0) / placed.length;
+
+  ctx.font = `bold ${level === 'hard' ? 20 : 26}px ${FONT}`;
+  ctx.textBaseline = 'middle';
+  placed.forEach(([x, y], index) => {
+    ctx.beginPath();
+    ctx.arc(x, y, index === 0 ? 11 : 7, 0, Math.PI * 2);
+    ctx.fill();
+    // Numbers sit just outside the shape so they never cover the line being drawn.
+    const distance = Math.hypot(x - cx, y - cy) || 1;
+    ctx.fillText(String(index + 1), x + ((x - cx) / distance) * 28, y + ((y - cy) / distance) * 28);
+  });
+  ctx.textBaseline = 'alphabetic';
+}
+
+/** Draws an activity page in the browser, without the AI, as a PNG like any other page. */
+export async function drawActivity(activity: Activity, context: ActivityContext): Promise<Omit<GeneratedPage, 'id'>> {
+  const { kind, level, seed } = activity;
+  const random = seededRandom(seed);
+  const name = context.childName.trim();
+  const title = {
+    tracing: 'Trace your name!',
+    maze: name ? `Help ${name} find the way!` : 'Find the way out!',
+    'dot-to-dot': 'Connect the dots!',
+    counting: 'How many can you count?'
+  }[kind];
+  const { canvas, ctx } = createPage(title);
+
+  switch (kind) {
+    case 'tracing':
+      drawTracing(ctx, context.childName, level);
+      break;
+    case 'maze':
+      drawMaze(ctx, level, random);
+      break;
+    case 'counting':
+      drawCounting(ctx, level, random);
+      break;
+    case 'dot-to-dot': {
+      if (!context.artPages.length) throw new Error('A dot-to-dot needs a coloring page to trace.');
+      await drawDotToDot(ctx, context.artPages[seed % context.artPages.length], level, random);
+      break;
+    }
+  }
+
+  return {
+    base64: canvas.toDataURL('image/png'),
+    prompt: `${ACTIVITY_LABELS[kind]} (${level})`,
+    activity
+  };
+}
@@ -0,0 +1,117 @@
+import type { ApiErrorCode, Book, BookContent, BookSummary, Difficulty, GeneratedPage, Job, JobEvent, JobRequest, StoryScene, UsageReport } from './types.ts';
+
+/** A non-2xx response from our own `/api` server. */
+export class ApiError extends Error {
+  status: number;
+  code?: ApiErrorCode;
+
+  constructor(status: number, message: string, code?: ApiErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/** Rate limits, outages and dropped connections: failures a retry may fix. A used-up daily quota isn't one. */
+export const isTransientError = (err: unknown): boolean =>
+  err instanceof ApiError ? TRANSIENT_STATUSES.includes(err.status) && err.code !== 'quota_exceeded' : err instanceof TypeError;
+
+const USER_STORAGE_KEY = 'coloringBook.user';
+
+/** The name this browser's requests are counted under; blank leaves it to the server. */
+export const loadUserName = () => localStorage.getItem(USER_STORAGE_KEY) ?? '';
+
+export const saveUserName = (name: string) => {
+  if (name.trim()) localStorage.setItem(USER_STORAGE_KEY, name.trim());
+  else localStorage.removeItem(USER_STORAGE_KEY);
+};
+
+async function request<T>(method: string, url: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+  const user = loadUserName();
+  const response = await fetch(url, {
+    method,
+    signal,
+    headers: {
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      ...(user ? { 'X-User': encodeURIComponent(user) } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.error || `Request failed with status ${response.status}`, data?.code);
+  }
+  return data as T;
+}
+
+// --- Generation ---
+export interface PageRequest {
+  pageIndex: number;
+  theme: string;
+  /** An exact prompt, when regenerating or editing a page. */
+  prompt?: string;
+  /** A story scene's illustration description. */
+  scene?: string;
+  /** Image data URL of the main character to keep consistent. */
+  reference?: string;
+  /** Image data URL of a photo to trace into line art. */
+  photo?: string;
+  difficulty?: Difficulty;
+  /** Draw anew rather than reuse the server's cached picture for the same request. */
+  fresh?: boolean;
+}
+
+/** Draws a page for `theme`, a story scene, a photo, or an exact prompt. */
+export const generatePage = (page: PageRequest, signal?: AbortSignal) =>
+  request<GeneratedPage>('POST', '/api/pages', page, signal);
+
+export const generateCover = async (photo: string, signal?: AbortSignal, fresh = false): Promise<string> => {
+  const { base64 } = await request<{ base64: string }>('POST', '/api/cover', { photo, fresh }, signal);
+  return base64;
+};
+
+export const writeStory = async (childName: string, theme: string, sceneCount: number, difficulty: Difficulty, signal?: AbortSignal): Promise<StoryScene[]> => {
+  const { scenes } = await request<{ scenes: StoryScene[] }>('POST', '/api/story', { childName, theme, sceneCount, difficulty }, signal);
+  return scenes;
+};
+
+// --- Jobs ---
+/** Queues a book's cover and pages on the server, which draws them whether or not this tab stays open. */
+export const createJob = (job: JobRequest) => request<Job>('POST', '/api/jobs', job);
+
+export const getJob = (id: string) => request<Job>('GET', `/api/jobs/${id}`);
+
+/** Stops a job if it is still running and forgets it. */
+export const deleteJob = (id: string) => request<void>('DELETE', `/api/jobs/${id}`);
+
+/**
+ * Streams a job's progress, reconnecting by itself after network drops.
+ * `onLost` runs if the stream can't be reopened, e.g. because the job is gone.
+ * Call the returned function to stop listening.
+ */
+export function watchJob(id: string, onEvent: (event: JobEvent) => void, onLost: () => void): () => void {
+  const source = new EventSource(`/api/jobs/${id}/events`);
+  source.onmessage = message => onEvent(JSON.parse(message.data));
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) onLost();
+  };
+  return () => source.close();
+}
+
+// --- Usage ---
+export const getUsage = (days?: number) => request<UsageReport>('GET', days ? `/api/usage?days=${days}` : '/api/usage');
+
+// --- Library ---
+export const listBooks = () => request<BookSummary[]>('GET', '/api/books');
+
+export const getBook = (id: string) => request<Book>('GET', `/api/books/${id}`);
+
+export const createBook = (content: BookContent) => request<Book>('POST', '/api/books', content);
+
+export const updateBook = (id: string, content: BookContent) => request<Book>('PUT', `/api/books/${id}`, content);
+
+export const deleteBook = (id: string) => request<void>('DELETE', `/api/books/${id}`);
@@ -0,0 +1,186 @@
+import { zipSync } from 'fflate';
+import { createBook, createJob, deleteJob, generatePage, getJob, watchJob } from './api.ts';
+import type { CleanupSettings } from './lineArt.ts';
+import { bookPdfFilename, renderBookPdf, type PdfOptions } from './pdf.ts';
+import { drawWithQualityGate, finishPage } from './pipeline.ts';
+import { withRetry, type RetryOptions } from './scheduler.ts';
+import { templateById } from './themePacks.ts';
+import type { BookContent, ChildProfile, CoverDesign, GeneratedPage, Job, JobEvent } from './types.ts';
+
+/** One child's book in a batch. */
+export interface BatchBook {
+  profile: ChildProfile;
+  theme: string;
+  /** A theme pack's page subjects, one per page; plain themed pages when absent. */
+  subjects?: string[];
+}
+
+export interface BatchProgress {
+  status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+  drawn: number;
+  failed: number;
+  total: number;
+  /** What the book is waiting on besides its pages, e.g. the cover or the PDF. */
+  detail?: string;
+}
+
+export interface BatchOptions {
+  pageCount: number;
+  /** Cover style shared by every book; each cover is titled from its own child and theme. */
+  cover: CoverDesign;
+  pdf: PdfOptions;
+  /** Retry policy for starting each book's job; its `signal` cancels the whole batch. */
+  retry: RetryOptions;
+  /** Draw every picture anew instead of reusing the server's cached ones. */
+  fresh: boolean;
+  cleanup: () => CleanupSettings;
+  onProgress: (profileId: string, progress: BatchProgress) => void;
+}
+
+/** A job with one streamed event applied. */
+const applyJobEvent = (job: Job, event: JobEvent): Job => {
+  switch (event.type) {
+    case 'job': return event.job;
+    case 'page': return { ...job, pages: job.pages.map(page => page.id === event.id ? { ...page, state: event.state, ...(event.page ? { page: event.page } : {}) } : page) };
+    case 'cover': return { ...job, cover: event.cover };
+    case 'reference': return { ...job, reference: event.reference };
+    case 'status': return { ...job, status: event.status };
+  }
+};
+
+/** Follows a job until the server finishes it, reporting every change; settles early with what it has when `signal` aborts. */
+const followJob = (job: Job, onChange: (job: Job) => void, signal?: AbortSignal) => new Promise<Job>((resolve, reject) => {
+  let current = job;
+  let stop = () => {};
+  const settle = (finish: () => void) => {
+    stop();
+    signal?.removeEventListener('abort', abort);
+    finish();
+  };
+  const abort = () => settle(() => resolve(current));
+  if (signal?.aborted) return abort();
+  signal?.addEventListener('abort', abort);
+  stop = watchJob(job.id, event => {
+    current = applyJobEvent(current, event);
+    onChange(current);
+    if (current.status === 'done' || current.status === 'cancelled') settle(() => resolve(current));
+  }, () => settle(() => getJob(job.id).then(resolve, reject)));
+});
+
+/**
+ * Hands one child's book to a server job, passes what it drew through the
+ * quality gate here, and saves the book to the library; null when no page could be drawn.
+ */
+async function drawBook({ profile, theme, subjects }: BatchBook, options: BatchOptions): Promise<BookContent | null> {
+  const { retry, pageCount } = options;
+  const { signal } = retry;
+  let progress: BatchProgress = { status: 'running', drawn: 0, failed: 0, total: pageCount };
+  const report = (changes: Partial<BatchProgress>) => {
+    progress = { ...progress, ...changes };
+    options.onProgress(profile.id, progress);
+  };
+  report({});
+
+  const job = await withRetry(() => createJob({
+    theme,
+    difficulty: profile.difficulty,
+    pages: Array.from({ length: pageCount }, (_, id) => ({ id, ...(subjects?.[id] ? { scene: subjects[id] } : {}) })),
+    ...(profile.photo ? { coverPhoto: profile.photo } : {}),
+    ...(options.fresh ? { fresh: true } : {}),
+    meta: { childName: profile.name, batch: true }
+  }), retry);
+
+  let finished: Job;
+  try {
+    finished = await followJob(job, current => report({
+      drawn: current.pages.filter(page => page.state.status === 'done').length,
+      failed: current.pages.filter(page => page.state.status === 'failed').length,
+      detail: current.cover?.state.status === 'running' ? 'Painting the cover' : undefined
+    }), signal);
+  } finally {
+    // Finished or cancelled, the job has nothing more to give once followed.
+    deleteJob(job.id).catch(err => console.error(`Error removing ${profile.name}'s job:`, err));
+  }
+
+  if (finished.cover?.state.status === 'failed') {
+    console.error(`Error generating the cover for ${profile.name}:`, finished.cover.state.error);
+  }
+  if (finished.pages.some(page => page.page)) report({ detail: 'Checking the pages' });
+
+  // The server draws; cleanup and the quality gate need a canvas, so they run here.
+  const finishDrawn = (id: number, drawn: GeneratedPage) => {
+    let firstDraw: GeneratedPage | null = drawn;
+    return drawWithQualityGate(async () => {
+      if (firstDraw) {
+        const page = firstDraw;
+        firstDraw = null;
+        return page;
+      }
+      // The cache would hand back the very picture the gate just turned down.
+      return generatePage({ pageIndex: id, theme, scene: subjects?.[id], difficulty: profile.difficulty, fresh: true }, signal);
+    }, options.cleanup).catch(err => {
+      // A redraw that fails still leaves the page as the server drew it.
+      if (!signal?.aborted) console.error(`Error redrawing page ${id} for ${profile.name}:`, err);
+      return finishPage(drawn, options.cleanup());
+    });
+  };
+  const pages = await Promise.all(finished.pages.flatMap(({ id, page }) => page ? [finishDrawn(id, page)] : []));
+
+  if (!pages.length) return null;
+  const { bgColor, textColor, accentColor } = templateById(profile.template);
+  const book: BookContent = {
+    childName: profile.name,
+    theme,
+    palette: { bgColor, textColor, accentColor },
+    coverImage: finished.cover?.image ?? null,
+    pages,
+    cover: options.cover
+  };
+  // Saved even when cancelled, so a stopped batch never loses paid generations.
+  await createBook(book).catch(err => console.error(`Error saving ${profile.name}'s book to library:`, err));
+  return book;
+}
+
+/**
+ * Makes each child's book in turn: the cover picture, the pages, a copy in the
+ * library and a PDF. A child whose book fails never stops the others. Returns
+ * all the PDFs in one zip, or null when none were made.
+ */
+export async function generateBatch(books: BatchBook[], options: BatchOptions): Promise<Uint8Array | null> {
+  const { signal } = options.retry;
+  const pdfs: Record<string, Uint8Array> = {};
+  books.forEach(({ profile }) => options.onProgress(profile.id, { status: 'queued', drawn: 0, failed: 0, total: options.pageCount }));
+
+  for (const batchBook of books) {
+    const { profile } = batchBook;
+    const base = { drawn: 0, failed: 0, total: options.pageCount };
+    if (signal?.aborted) {
+      options.onProgress(profile.id, { ...base, status: 'cancelled' });
+      continue;
+    }
+    try {
+      const book = await drawBook(batchBook, options);
+      if (signal?.aborted) throw signal.reason;
+      const drawn = book?.pages.length ?? 0;
+      const done = { drawn, failed: options.pageCount - drawn, total: options.pageCount };
+      if (!book) {
+        options.onProgress(profile.id, { ...done, status: 'failed' });
+        continue;
+      }
+      options.onProgress(profile.id, { ...done, status: 'running', detail: 'Making the PDF' });
+      const pdf = await renderBookPdf(book, options.pdf);
+      // Two children can share a name; number the later files instead of overwriting.
+      const name = bookPdfFilename(profile.name);
+      let filename = name;
+      for (let copy = 2; filename in pdfs; copy++) filename = name.replace(/\.pdf$/, ` (${copy}).pdf`);
+      pdfs[filename] = new Uint8Array(pdf.output('arraybuffer'));
+      options.onProgress(profile.id, { ...done, status: 'done' });
+    } catch (err) {
+      if (!signal?.aborted) console.error(`Error making ${profile.name}'s book:`, err);
+      options.onProgress(profile.id, { ...base, status: signal?.aborted ? 'cancelled' : 'failed' });
+    }
+  }
+
+  // PDFs are compressed already, so the zip only stores them.
+  return Object.keys(pdfs).length ? zipSync(pdfs, { level: 0 }) : null;
+}
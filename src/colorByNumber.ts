@@ -0,0 +1,149 @@
+import { getImagePixels, loadImage } from './images.ts';
+import { binarize, distanceTo, labelComponents, luminance, medianStrokeWidth, type Bitmap } from './lineArt.ts';
+import type { CoverPalette, GeneratedPage } from './types.ts';
+
+export type NumberPalette = 'rainbow' | 'pastel' | 'cover';
+
+export const NUMBER_PALETTE_OPTIONS: { value: NumberPalette; label: string }[] = [
+  { value: 'rainbow', label: 'Rainbow' },
+  { value: 'pastel', label: 'Pastel' },
+  { value: 'cover', label: 'Cover colors' }
+];
+
+const FIXED_PALETTES: Record<Exclude<NumberPalette, 'cover'>, string[]> = {
+  rainbow: ['#ef4444', '#f97316', '#facc15', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#a16207'],
+  pastel: ['#fca5a5', '#fdba74', '#fde68a', '#86efac', '#93c5fd', '#c4b5fd']
+};
+
+/** Regions are found at this size; numbers are then placed on the full-size page. */
+const ANALYSIS_SIZE = 512;
+/** Regions whose widest point is narrower than this (px at `ANALYSIS_SIZE`) stay unnumbered. */
+const MIN_REGION_RADIUS = 6;
+
+const hexToHsl = (hex: string): [number, number, number] => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h * 60, s, l];
+};
+
+const hslToHex = (h: number, s: number, l: number): string => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => Math.round(255 * (l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))));
+  return `#${[0, 8, 4].map(n => channel(n).toString(16).padStart(2, '0')).join('')}`;
+};
+
+/** The key's colors; the cover option spreads hues out from the accent color so neighbors stay distinct. */
+export function numberPaletteColors(choice: NumberPalette, cover: CoverPalette): string[] {
+  if (choice !== 'cover') return FIXED_PALETTES[choice];
+  const [h, s, l] = hexToHsl(cover.accentColor);
+  const hues = [0, 72, 144, 216, 288].map(offset => hslToHex((h + offset) % 360, Math.max(s, 0.5), Math.min(Math.max(l, 0.45), 0.65)));
+  return [...hues, cover.textColor];
+}
+
+export interface NumberedRegion {
+  /** Where the number goes: the point farthest from any line. */
+  x: number;
+  y: number;
+  /** Distance from that point to the nearest line, which bounds the number's size. */
+  radius: number;
+  /** 1-based index into the color key. */
+  number: number;
+}
+
+/**
+ * Numbers the enclosed areas of a line drawing. The background (anything
+ * touching the edge) and areas too small to print a number in are left blank.
+ * Neighboring areas get different numbers where the palette allows, and colors
+ * are spread evenly over the page.
+ */
+export function numberRegions(bitmap: Bitmap, colorCount: number, minRadius = MIN_REGION_RADIUS): NumberedRegion[] {
+  const { width, height, ink } = bitmap;
+  const { labels, sizes } = labelComponents(ink, width, height, 0);
+  const dist = distanceTo(ink, width, height, 1);
+
+  const background = new Set<number>();
+  const centers = sizes.map(() => ({ index: -1, radius: 0 }));
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (label === -1) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) background.add(label);
+    if (dist[i] > centers[label].radius) centers[label] = { index: i, radius: dist[i] };
+  }
+  const numbered = centers
+    .map((center, label) => ({ ...center, label }))
+    .filter(({ label, radius }) => !background.has(label) && radius >= minRadius)
+    .sort((a, b) => sizes[b.label] - sizes[a.label]);
+  const isNumbered = new Set(numbered.map(({ label }) => label));
+
+  // Areas are neighbors when a short hop across a line leads from one to the other.
+  const reach = Math.ceil(medianStrokeWidth(bitmap)) + 2;
+  const neighbors = new Map<number, Set<number>>();
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (!isNumbered.has(label)) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [nx, ny] of [[x + reach, y], [x, y + reach]]) {
+      if (nx >= width || ny >= height) continue;
+      const other = labels[ny * width + nx];
+      if (other === label || !isNumbered.has(other)) continue;
+      if (!neighbors.has(label)) neighbors.set(label, new Set());
+      if (!neighbors.has(other)) neighbors.set(other, new Set());
+      neighbors.get(label)!.add(other);
+      neighbors.get(other)!.add(label);
+    }
+  }
+
+  const uses = new Array(colorCount).fill(0);
+  const assigned = new Map<number, number>();
+  return numbered.map(({ index, radius, label }) => {
+    const taken = new Set([...(neighbors.get(label) ?? [])].map(other => assigned.get(other)));
+    const candidates = uses.map((_, color) => color).filter(color => !taken.has(color));
+    const pool = candidates.length ? candidates : uses.map((_, color) => color);
+    const color = pool.reduce((best, c) => uses[c] < uses[best] ? c : best, pool[0]);
+    uses[color]++;
+    assigned.set(label, color);
+    return { x: index % width, y: Math.floor(index / width), radius, number: color + 1 };
+  });
+}
+
+/** A copy of a page with a number printed in each area; the PDF prints `colorKey` as its legend. */
+export async function createColorByNumberPage(page: GeneratedPage, colors: string[]): Promise<Omit<GeneratedPage, 'id'>> {
+  const { data, width, height } = await getImagePixels(page.base64, ANALYSIS_SIZE);
+  const regions = numberRegions(binarize(luminance(data), width, height, 160, false), colors.length);
+  if (!regions.length) throw new Error('This page has no enclosed areas big enough to number.');
+
+  const image = await loadImage(page.base64);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  const scale = canvas.width / width;
+  ctx.fillStyle = '#000000';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  regions.forEach(({ x, y, radius, number }) => {
+    const size = Math.max(12, Math.min(radius * scale * 1.1, 40 * (canvas.width / 1024)));
+    ctx.font = `bold ${size}px Arial, sans-serif`;
+    ctx.fillText(String(number), (x + 0.5) * scale, (y + 0.5) * scale);
+  });
+
+  return {
+    base64: canvas.toDataURL('image/png'),
+    prompt: page.prompt,
+    colorKey: colors
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Pixel helpers for on-screen coloring. The paint sits on its own layer under
+ * the line art, so fills and brush strokes can never cover the black lines.
+ */
+
+/** Pixels darker than this count as line when bounding a fill; anti-aliased edges included. */
+const LINE_THRESHOLD = 200;
+/** How far (px) a fill reaches under the lines, hiding the pale seam along anti-aliased edges. */
+const FILL_BLEED = 2;
+/** Paint within this distance of the clicked color is treated as the same area. */
+const COLOR_TOLERANCE = 48;
+
+/** Marks line pixels (1) in an RGBA image of the page's line art. */
+export function lineMask(rgba: Uint8ClampedArray): Uint8Array {
+  const mask = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < mask.length; i++) {
+    const lum = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    mask[i] = lum < LINE_THRESHOLD ? 1 : 0;
+  }
+  return mask;
+}
+
+/** Turns line art into black ink on a transparent background, for drawing over the paint. */
+export function linesOverlay(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(rgba.length);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const lum = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+    out[i + 3] = 255 - lum;
+  }
+  return out;
+}
+
+/**
+ * Paint-bucket fill on the paint layer: spreads from (x, y) through pixels of
+ * the clicked color, stopping at lines. Returns false when there was nothing to fill.
+ */
+export function floodFill(
+  paint: Uint8ClampedArray,
+  width: number,
+  height: number,
+  lines: Uint8Array,
+  x: number,
+  y: number,
+  [r, g, b]: [number, number, number]
+): boolean {
+  const start = y * width + x;
+  if (lines[start]) return false;
+  const [sr, sg, sb] = [paint[start * 4], paint[start * 4 + 1], paint[start * 4 + 2]];
+  if (sr === r && sg === g && sb === b) return false;
+
+  const matches = (i: number) =>
+    !lines[i] &&
+    Math.abs(paint[i * 4] - sr) + Math.abs(paint[i * 4 + 1] - sg) + Math.abs(paint[i * 4 + 2] - sb) <= COLOR_TOLERANCE;
+
+  const filled = new Uint8Array(width * height);
+  const stack = [start];
+  filled[start] = 1;
+  while (stack.length) {
+    const i = stack.pop()!;
+    const px = i % width;
+    const neighbors = [px > 0 ? i - 1 : -1, px < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbors) {
+      if (n < 0 || n >= filled.length || filled[n] || !matches(n)) continue;
+      filled[n] = 1;
+      stack.push(n);
+    }
+  }
+
+  const set = (i: number) => {
+    paint[i * 4] = r;
+    paint[i * 4 + 1] = g;
+    paint[i * 4 + 2] = b;
+    paint[i * 4 + 3] = 255;
+  };
+  for (let i = 0; i < filled.length; i++) {
+    if (!filled[i]) continue;
+    set(i);
+    // Creep a little way under the neighboring lines so no white seam shows.
+    const px = i % width;
+    const py = Math.floor(i / width);
+    for (let dy = -FILL_BLEED; dy <= FILL_BLEED; dy++) {
+      for (let dx = -FILL_BLEED; dx <= FILL_BLEED; dx++) {
+        const nx = px + dx;
+        const ny = py + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && lines[ny * width + nx]) set(ny * width + nx);
+      }
+    }
+  }
+  return true;
+}
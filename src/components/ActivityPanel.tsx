@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Loader2, Puzzle } from 'lucide-react';
+import { ACTIVITY_LABELS } from '../activities.ts';
+import { NUMBER_PALETTE_OPTIONS, type NumberPalette } from '../colorByNumber.ts';
+import type { ActivityKind, ActivityLevel } from '../types.ts';
+
+interface ActivityPanelProps {
+  onAdd: (kind: ActivityKind, level: ActivityLevel) => void;
+  /** Kinds that can't be made right now, with the reason shown as a tooltip. */
+  unavailable: Partial<Record<ActivityKind, string>>;
+  busy: boolean;
+  numberPalette: NumberPalette;
+  onNumberPaletteChange: (palette: NumberPalette) => void;
+}
+
+const KINDS: ActivityKind[] = ['tracing', 'maze', 'dot-to-dot', 'counting'];
+
+const LEVEL_OPTIONS: { value: ActivityLevel; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' }
+];
+
+const selectClass = "px-3 py-2 rounded-xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm cursor-pointer";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+/** Adds puzzle pages drawn right in the browser, so they work offline and never use the AI. */
+export default function ActivityPanel({ onAdd, unavailable, busy, numberPalette, onNumberPaletteChange }: ActivityPanelProps) {
+  const [level, setLevel] = useState<ActivityLevel>('medium');
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-slate-100 p-5 space-y-4 relative z-10">
+      <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <Puzzle className="w-4 h-4 text-orange-500" />
+        Activity pages
+      </span>
+      <p className="text-xs text-slate-400">
+        Mix in name tracing, mazes, dot-to-dots made from your pages and counting games. They are added at the end of the book; the refresh button on one draws a new puzzle.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={labelClass}>Level</span>
+        <select value={level} onChange={(e) => setLevel(e.target.value as ActivityLevel)} className={selectClass}>
+          {LEVEL_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        {KINDS.map(kind => (
+          <button
+            key={kind}
+            type="button"
+            disabled={busy || Boolean(unavailable[kind])}
+            title={unavailable[kind]}
+            onClick={() => onAdd(kind, level)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-100 text-slate-600 text-sm font-bold hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            + {ACTIVITY_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={labelClass}>Color by number</span>
+        <select value={numberPalette} onChange={(e) => onNumberPaletteChange(e.target.value as NumberPalette)} className={selectClass}>
+          {NUMBER_PALETTE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <span className="text-xs text-slate-400">Use the # button on a page to add a numbered copy with a color key.</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Upload, UserRound } from 'lucide-react';
+import { readFileAsDataUrl } from '../images.ts';
+
+export type CharacterSource = 'none' | 'first-page' | 'photo' | 'sheet';
+
+interface CharacterPickerProps {
+  source: CharacterSource;
+  onSourceChange: (source: CharacterSource) => void;
+  sheet: string | null;
+  onSheetChange: (sheet: string | null) => void;
+  /** Whether a cover photo has been uploaded to use as the reference. */
+  hasPhoto: boolean;
+}
+
+const OPTIONS: { value: CharacterSource; label: string; hint: string }[] = [
+  { value: 'none', label: 'Off', hint: 'Every page is drawn on its own.' },
+  { value: 'first-page', label: 'First page', hint: 'The first page is drawn first, and its character is reused on the rest.' },
+  { value: 'photo', label: 'Cover photo', hint: 'The character is based on the person in your cover photo.' },
+  { value: 'sheet', label: 'My drawing', hint: 'Upload a character sheet or favorite drawing to base the character on.' }
+];
+
+/** Chooses the reference picture that keeps the main character the same on every page. */
+export default function CharacterPicker({ source, onSourceChange, sheet, onSheetChange, hasPhoto }: CharacterPickerProps) {
+  const selected = OPTIONS.find(option => option.value === source)!;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onSheetChange(await readFileAsDataUrl(file));
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <UserRound className="w-4 h-4 text-orange-500" />
+        Same Character on Every Page
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            disabled={option.value === 'photo' && !hasPhoto}
+            onClick={() => onSourceChange(option.value)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+              source === option.value
+                ? 'bg-orange-500 text-white shadow-sm'
+                : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">{selected.hint}</p>
+
+      {source === 'sheet' && (
+        <div className="flex items-center gap-6">
+          <label className="flex flex-col items-center justify-center w-24 h-24 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:bg-slate-50 transition-all group overflow-hidden">
+            {sheet ? (
+              <img src={sheet} className="w-full h-full object-contain" alt="Character reference" />
+            ) : (
+              <>
+                <Upload className="w-5 h-5 text-slate-400 group-hover:text-orange-500 mb-1" />
+                <span className="text-[10px] font-bold text-slate-400 uppercase">Upload</span>
+              </>
+            )}
+            <input type="file" className="hidden" accept="image/*" onChange={handleUpload} />
+          </label>
+          {sheet && (
+            <button
+              type="button"
+              onClick={() => onSheetChange(null)}
+              className="text-xs font-bold text-red-500 hover:text-red-600 uppercase tracking-wider"
+            >
+              Remove Drawing
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
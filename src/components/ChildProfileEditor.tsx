@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { readFileAsDataUrl, toSquarePng } from '../images.ts';
+import { MAX_FAVORITE_THEMES, parseProfile } from '../profiles.ts';
+import { TEMPLATES } from '../themePacks.ts';
+import type { ChildProfile, Difficulty } from '../types.ts';
+import { DIFFICULTY_OPTIONS } from './DifficultyPicker.tsx';
+
+interface ChildProfileEditorProps {
+  profile: ChildProfile;
+  onSave: (profile: ChildProfile) => void;
+  onCancel: () => void;
+}
+
+/** Profile photos are kept small, since profiles live in browser storage. */
+const PHOTO_SIZE = 384;
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-white border border-slate-100 focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+/** Form for one child; favorite themes are edited as a comma-separated list. */
+export default function ChildProfileEditor({ profile, onSave, onCancel }: ChildProfileEditorProps) {
+  const [draft, setDraft] = useState({ ...profile, themeText: profile.favoriteThemes.join(', ') });
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<typeof draft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ photo: await toSquarePng(await readFileAsDataUrl(file), PHOTO_SIZE) });
+    } catch {
+      setError("We couldn't read that picture. Please try a different image.");
+    }
+  };
+
+  const save = () => {
+    try {
+      const favoriteThemes = draft.themeText.split(',').map(theme => theme.trim()).filter(Boolean);
+      onSave(parseProfile({ ...draft, favoriteThemes }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-2xl bg-slate-50 space-y-3">
+      <div className="flex gap-4">
+        <label className="flex flex-col items-center justify-center w-20 h-20 shrink-0 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:bg-white transition-all overflow-hidden">
+          {draft.photo ? (
+            <img src={draft.photo} className="w-full h-full object-cover" alt={`${draft.name || 'Child'}'s photo`} />
+          ) : (
+            <>
+              <Upload className="w-5 h-5 text-slate-400 mb-1" />
+              <span className="text-[10px] font-bold text-slate-400 uppercase">Photo</span>
+            </>
+          )}
+          <input type="file" className="hidden" accept="image/*" onChange={handlePhoto} />
+        </label>
+        <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <span className={labelClass}>Name</span>
+            <input value={draft.name} onChange={(e) => update({ name: e.target.value })} maxLength={40} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Age</span>
+            <select value={draft.difficulty} onChange={(e) => update({ difficulty: e.target.value as Difficulty })} className={`${inputClass} cursor-pointer`}>
+              {DIFFICULTY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label} ({option.ages})</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Cover</span>
+            <select value={draft.template} onChange={(e) => update({ template: e.target.value })} className={`${inputClass} cursor-pointer`}>
+              {TEMPLATES.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <span className={labelClass}>Favorite themes, separated by commas</span>
+        <input
+          value={draft.themeText}
+          onChange={(e) => update({ themeText: e.target.value })}
+          placeholder="e.g. Dinosaurs, Ocean Animals"
+          className={inputClass}
+        />
+        <p className="text-xs text-slate-400">Up to {MAX_FAVORITE_THEMES}. Batch books use the first one when no theme is typed in above.</p>
+      </div>
+      {draft.photo && (
+        <button type="button" onClick={() => update({ photo: undefined })} className="text-xs font-bold text-red-500 hover:text-red-600 uppercase tracking-wider">
+          Remove Photo
+        </button>
+      )}
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-500 text-sm font-bold hover:bg-slate-200 transition-all">
+          Cancel
+        </button>
+        <button type="button" onClick={save} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition-all">
+          Save Child
+        </button>
+      </div>
+    </div>
+  );
+}
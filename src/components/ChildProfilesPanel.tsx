@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { AlertCircle, Ban, CheckCircle2, Clock, Loader2, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import type { BatchProgress } from '../batch.ts';
+import { newProfile } from '../profiles.ts';
+import type { ChildProfile } from '../types.ts';
+import ChildProfileEditor from './ChildProfileEditor.tsx';
+import { DIFFICULTY_OPTIONS } from './DifficultyPicker.tsx';
+
+interface ChildProfilesPanelProps {
+  profiles: ChildProfile[];
+  onSave: (profile: ChildProfile) => void;
+  onDelete: (id: string) => void;
+  /** Fills in the form from a profile. */
+  onUse: (profile: ChildProfile) => void;
+  /** The theme typed into the form; batch books fall back to each child's first favorite. */
+  theme: string;
+  pageCount: number;
+  onStartBatch: (profiles: ChildProfile[]) => void;
+  onCancelBatch: () => void;
+  /** Per-child progress of the current or last batch, keyed by profile id. */
+  progress: Record<string, BatchProgress>;
+  isBatchRunning: boolean;
+  /** A single book is being made, so a batch can't start. */
+  busy: boolean;
+}
+
+const actionClass = "flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-orange-500 uppercase tracking-wider transition-colors";
+
+const STATUS_STYLES = {
+  queued: { icon: Clock, className: 'text-slate-400', label: 'Waiting' },
+  running: { icon: Loader2, className: 'text-orange-600', label: 'Drawing' },
+  done: { icon: CheckCircle2, className: 'text-emerald-600', label: 'Done' },
+  failed: { icon: AlertCircle, className: 'text-red-600', label: 'Failed' },
+  cancelled: { icon: Ban, className: 'text-slate-400', label: 'Cancelled' },
+};
+
+/** Saved children, with a batch mode that makes one book for each selected child. */
+export default function ChildProfilesPanel({
+  profiles, onSave, onDelete, onUse, theme, pageCount, onStartBatch, onCancelBatch, progress, isBatchRunning, busy
+}: ChildProfilesPanelProps) {
+  const [editing, setEditing] = useState<ChildProfile | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selected = profiles.filter(profile => selectedIds.includes(profile.id));
+  const withoutTheme = theme.trim() ? [] : selected.filter(profile => !profile.favoriteThemes.length);
+
+  const toggle = (id: string) =>
+    setSelectedIds(current => current.includes(id) ? current.filter(other => other !== id) : [...current, id]);
+
+  const handleSave = (profile: ChildProfile) => {
+    onSave(profile);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <Users className="w-4 h-4 text-orange-500" />
+        Children
+      </label>
+      <p className="text-xs text-slate-400">
+        Save each child's name, age, favorite themes, cover and photo. Use one to fill in this form, or tick several to make a book for each in one go and download all the PDFs together.
+      </p>
+
+      {profiles.length > 0 && (
+        <ul className="space-y-2">
+          {profiles.map(profile => {
+            const state = progress[profile.id];
+            const style = state && STATUS_STYLES[state.status];
+            return (
+              <li key={profile.id} className="flex items-center gap-3 p-3 rounded-2xl bg-slate-50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(profile.id)}
+                  onChange={() => toggle(profile.id)}
+                  disabled={isBatchRunning}
+                  className="w-5 h-5 accent-orange-500 cursor-pointer"
+                  aria-label={`Include ${profile.name} in the batch`}
+                />
+                {profile.photo ? (
+                  <img src={profile.photo} className="w-10 h-10 rounded-full object-cover" alt="" />
+                ) : (
+                  <span className="flex items-center justify-center w-10 h-10 rounded-full bg-orange-100 text-orange-600 font-bold">
+                    {profile.name[0].toUpperCase()}
+                  </span>
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-slate-700 truncate">{profile.name}</div>
+                  <div className="text-xs text-slate-400 truncate">
+                    {DIFFICULTY_OPTIONS.find(option => option.value === profile.difficulty)?.label}
+                    {profile.favoriteThemes.length > 0 && <> · {profile.favoriteThemes.join(', ')}</>}
+                  </div>
+                  {state && style && (
+                    <div className="mt-1.5 space-y-1">
+                      <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-orange-500 transition-all" style={{ width: `${((state.drawn + state.failed) / state.total) * 100}%` }} />
+                      </div>
+                      <span className={`flex items-center gap-1 text-xs font-bold ${style.className}`}>
+                        <style.icon className={`w-3 h-3 ${state.status === 'running' ? 'animate-spin' : ''}`} />
+                        {state.detail ?? style.label} · {state.drawn} of {state.total} page{state.total === 1 ? '' : 's'}
+                        {state.failed > 0 && `, ${state.failed} missing`}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <button type="button" onClick={() => onUse(profile)} disabled={busy || isBatchRunning} className={`${actionClass} disabled:opacity-40`}>
+                    Use
+                  </button>
+                  <button type="button" title="Edit" onClick={() => setEditing(profile)} className={actionClass}>
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Delete"
+                    disabled={isBatchRunning}
+                    onClick={() => {
+                      onDelete(profile.id);
+                      setSelectedIds(current => current.filter(id => id !== profile.id));
+                    }}
+                    className={`${actionClass} hover:text-red-500 disabled:opacity-40`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="button" onClick={() => setEditing(newProfile())} className={actionClass}>
+          <Plus className="w-3.5 h-3.5" /> Add Child
+        </button>
+        {isBatchRunning ? (
+          <button
+            type="button"
+            onClick={onCancelBatch}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Cancel Batch
+          </button>
+        ) : selected.length > 0 && (
+          <button
+            type="button"
+            disabled={busy || withoutTheme.length > 0}
+            onClick={() => onStartBatch(selected)}
+            className="px-4 py-2 rounded-xl bg-orange-500 text-white text-sm font-bold hover:bg-orange-600 disabled:bg-orange-300 disabled:cursor-not-allowed transition-all"
+          >
+            Make {selected.length} Book{selected.length === 1 ? '' : 's'} of {pageCount} Page{pageCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+      {withoutTheme.length > 0 && (
+        <p className="text-xs font-bold text-red-500">
+          Type a theme above, or give {withoutTheme.map(profile => profile.name).join(' and ')} a favorite theme.
+        </p>
+      )}
+
+      {editing && (
+        <ChildProfileEditor key={editing.id} profile={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Wand2 } from 'lucide-react';
+import type { CleanupSettings } from '../lineArt.ts';
+
+interface CleanupPanelProps {
+  settings: CleanupSettings;
+  onChange: (settings: CleanupSettings) => void;
+}
+
+const STROKE_OPTIONS = [
+  { label: 'As drawn', value: 0 },
+  { label: 'Medium', value: 8 },
+  { label: 'Thick', value: 12 },
+  { label: 'Extra thick', value: 18 }
+];
+
+const DESPECKLE_OPTIONS = [
+  { label: 'Off', value: 0 },
+  { label: 'Light', value: 24 },
+  { label: 'Strong', value: 96 }
+];
+
+const MARGIN_OPTIONS = [
+  { label: 'None', value: 0 },
+  { label: 'Small', value: 0.03 },
+  { label: 'Large', value: 0.06 }
+];
+
+const selectClass = "w-full px-3 py-2 rounded-xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm cursor-pointer disabled:opacity-50";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+/** Controls for the line-art cleanup pipeline applied to every page. */
+export default function CleanupPanel({ settings, onChange }: CleanupPanelProps) {
+  const update = (changes: Partial<CleanupSettings>) => onChange({ ...settings, ...changes });
+  const disabled = !settings.enabled;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-slate-100 p-5 space-y-4 relative z-10">
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+          <Wand2 className="w-4 h-4 text-orange-500" />
+          Clean up line art
+        </span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="w-5 h-5 accent-orange-500 cursor-pointer"
+        />
+      </label>
+      <p className="text-xs text-slate-400">
+        Forces pure black lines on white paper so pages print crisply. Hold the eye button on any page to compare with the original.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-1.5">
+          <span className={labelClass}>Line thickness</span>
+          <select disabled={disabled} value={settings.strokeWidth} onChange={(e) => update({ strokeWidth: Number(e.target.value) })} className={selectClass}>
+            {STROKE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Remove specks</span>
+          <select disabled={disabled} value={settings.despeckleArea} onChange={(e) => update({ despeckleArea: Number(e.target.value) })} className={selectClass}>
+            {DESPECKLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>White margin</span>
+          <select disabled={disabled} value={settings.margin} onChange={(e) => update({ margin: Number(e.target.value) })} className={selectClass}>
+            {MARGIN_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Darkness cutoff</span>
+          <input
+            type="range"
+            min={80}
+            max={230}
+            step={10}
+            disabled={disabled}
+            value={settings.threshold}
+            onChange={(e) => update({ threshold: Number(e.target.value) })}
+            className="w-full accent-orange-500 disabled:opacity-50"
+          />
+        </div>
+      </div>
+
+      <label className={`flex items-center gap-2 text-sm text-slate-600 ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={settings.removeGrayFills}
+          onChange={(e) => update({ removeGrayFills: e.target.checked })}
+          className="accent-orange-500"
+        />
+        Remove gray shading and fills
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from 'react';
+import { Brush, Download, Eraser, Loader2, PaintBucket, Redo2, Save, Trash2, Undo2, X } from 'lucide-react';
+import { floodFill, lineMask, linesOverlay } from '../coloring.ts';
+import { getImagePixels, loadImage, saveFile } from '../images.ts';
+import { hexToRgb } from '../pdf.ts';
+import type { GeneratedPage } from '../types.ts';
+
+interface ColoringModeProps {
+  page: GeneratedPage;
+  /** Receives the colored page, lines included, as a PNG data URL. */
+  onSave: (colored: string) => void;
+  onClose: () => void;
+  filename: string;
+}
+
+type Tool = 'fill' | 'brush' | 'eraser';
+
+const PALETTE = [
+  '#ef4444', '#f97316', '#facc15', '#84cc16', '#22c55e', '#14b8a6', '#0ea5e9', '#3b82f6',
+  '#8b5cf6', '#ec4899', '#f9a8d4', '#a16207', '#fde68a', '#9ca3af', '#1f2937', '#ffffff'
+];
+
+const BRUSH_SIZES = [8, 20, 44];
+
+const MAX_UNDO = 20;
+
+const toolClass = (active: boolean) =>
+  `flex items-center justify-center w-12 h-12 rounded-2xl transition-all ${active ? 'bg-orange-500 text-white shadow-sm' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'} disabled:opacity-40`;
+
+/** Full-screen coloring on the page itself: paint bucket, brush and eraser, with undo. */
+export default function ColoringMode({ page, onSave, onClose, filename }: ColoringModeProps) {
+  const paintRef = useRef<HTMLCanvasElement>(null);
+  const linesRef = useRef<HTMLCanvasElement>(null);
+  const lines = useRef<Uint8Array | null>(null);
+  const undoStack = useRef<ImageData[]>([]);
+  const redoStack = useRef<ImageData[]>([]);
+  const lastPoint = useRef<[number, number] | null>(null);
+  const [ready, setReady] = useState(false);
+  const [tool, setTool] = useState<Tool>('fill');
+  const [color, setColor] = useState(PALETTE[0]);
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  // Bumped after every change so the undo and redo buttons re-render.
+  const [, setHistoryVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const art = await getImagePixels(page.base64);
+      const previous = page.colored ? await loadImage(page.colored) : null;
+      if (cancelled) return;
+      const paint = paintRef.current!;
+      const overlay = linesRef.current!;
+      for (const canvas of [paint, overlay]) {
+        canvas.width = art.width;
+        canvas.height = art.height;
+      }
+      lines.current = lineMask(art.data);
+      overlay.getContext('2d')!.putImageData(new ImageData(linesOverlay(art.data), art.width, art.height), 0, 0);
+      const ctx = paint.getContext('2d', { willReadFrequently: true })!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, art.width, art.height);
+      if (previous) ctx.drawImage(previous, 0, 0, art.width, art.height);
+      setReady(true);
+    })().catch(err => console.error(`Error opening page ${page.id} for coloring:`, err));
+    return () => { cancelled = true; };
+  }, [page.base64]);
+
+  const paintContext = () => paintRef.current!.getContext('2d', { willReadFrequently: true })!;
+  const snapshot = () => paintContext().getImageData(0, 0, paintRef.current!.width, paintRef.current!.height);
+
+  const remember = (image = snapshot()) => {
+    undoStack.current = [...undoStack.current.slice(1 - MAX_UNDO), image];
+    redoStack.current = [];
+    setHistoryVersion(v => v + 1);
+  };
+
+  const step = (from: React.RefObject<ImageData[]>, to: React.RefObject<ImageData[]>) => {
+    const image = from.current.pop();
+    if (!image) return;
+    to.current.push(snapshot());
+    paintContext().putImageData(image, 0, 0);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const canvas = paintRef.current!;
+    return [
+      Math.floor(((e.clientX - rect.left) * canvas.width) / rect.width),
+      Math.floor(((e.clientY - rect.top) * canvas.height) / rect.height)
+    ];
+  };
+
+  const strokeTo = (point: [number, number]) => {
+    const ctx = paintContext();
+    const from = lastPoint.current ?? point;
+    ctx.strokeStyle = tool === 'eraser' ? '#ffffff' : color;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from[0], from[1]);
+    ctx.lineTo(point[0], point[1]);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!ready) return;
+    const [x, y] = toCanvas(e);
+    if (tool === 'fill') {
+      const image = snapshot();
+      const before = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+      if (floodFill(image.data, image.width, image.height, lines.current!, x, y, hexToRgb(color))) {
+        remember(before);
+        paintContext().putImageData(image, 0, 0);
+      }
+      return;
+    }
+    remember();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    strokeTo([x, y]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPoint.current) strokeTo(toCanvas(e));
+  };
+
+  const endStroke = () => { lastPoint.current = null; };
+
+  const clear = () => {
+    remember();
+    const ctx = paintContext();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, paintRef.current!.width, paintRef.current!.height);
+  };
+
+  /** The paint with the lines on top, as it looks on screen. */
+  const composite = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = paintRef.current!.width;
+    canvas.height = paintRef.current!.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(paintRef.current!, 0, 0);
+    ctx.drawImage(linesRef.current!, 0, 0);
+    return canvas;
+  };
+
+  const downloadPng = () =>
+    composite().toBlob(blob => { if (blob) saveFile(blob, 'image/png', filename); }, 'image/png');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl max-h-full overflow-auto p-5 flex flex-col lg:flex-row gap-5">
+        <div className="relative flex-1 aspect-square max-h-[80vh] mx-auto bg-white rounded-2xl border border-slate-100 overflow-hidden">
+          <canvas ref={paintRef} className="absolute inset-0 w-full h-full" />
+          <canvas
+            ref={linesRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endStroke}
+            onPointerCancel={endStroke}
+            className={`absolute inset-0 w-full h-full touch-none ${tool === 'fill' ? 'cursor-pointer' : 'cursor-crosshair'}`}
+          />
+          {!ready && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+            </div>
+          )}
+        </div>
+
+        <div className="lg:w-64 space-y-5">
+          <div className="flex gap-2">
+            <button type="button" title="Paint bucket" onClick={() => setTool('fill')} className={toolClass(tool === 'fill')}>
+              <PaintBucket className="w-6 h-6" />
+            </button>
+            <button type="button" title="Brush" onClick={() => setTool('brush')} className={toolClass(tool === 'brush')}>
+              <Brush className="w-6 h-6" />
+            </button>
+            <button type="button" title="Eraser" onClick={() => setTool('eraser')} className={toolClass(tool === 'eraser')}>
+              <Eraser className="w-6 h-6" />
+            </button>
+          </div>
+
+          {tool !== 'fill' && (
+            <div className="flex gap-2">
+              {BRUSH_SIZES.map(size => (
+                <button key={size} type="button" title={`Brush size ${size}`} onClick={() => setBrushSize(size)} className={toolClass(brushSize === size)}>
+                  <span className="rounded-full bg-current" style={{ width: size / 2 + 4, height: size / 2 + 4 }} />
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-8 lg:grid-cols-4 gap-2">
+            {PALETTE.map(swatch => (
+              <button
+                key={swatch}
+                type="button"
+                title={swatch}
+                onClick={() => {
+                  setColor(swatch);
+                  if (tool === 'eraser') setTool('brush');
+                }}
+                className={`aspect-square rounded-full border-2 transition-transform ${color === swatch && tool !== 'eraser' ? 'border-slate-900 scale-110' : 'border-slate-200'}`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button type="button" title="Undo" disabled={!undoStack.current.length} onClick={() => step(undoStack, redoStack)} className={toolClass(false)}>
+              <Undo2 className="w-6 h-6" />
+            </button>
+            <button type="button" title="Redo" disabled={!redoStack.current.length} onClick={() => step(redoStack, undoStack)} className={toolClass(false)}>
+              <Redo2 className="w-6 h-6" />
+            </button>
+            <button type="button" title="Start over" disabled={!ready} onClick={clear} className={toolClass(false)}>
+              <Trash2 className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <button
+              type="button"
+              disabled={!ready}
+              onClick={() => onSave(composite().toDataURL('image/png'))}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-orange-500 text-white font-bold hover:bg-orange-600 disabled:bg-orange-300 transition-all"
+            >
+              <Save className="w-5 h-5" />
+              Save to Book
+            </button>
+            <button
+              type="button"
+              disabled={!ready}
+              onClick={downloadPng}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-slate-100 text-slate-600 font-bold hover:bg-slate-200 disabled:opacity-50 transition-all"
+            >
+              <Download className="w-5 h-5" />
+              Download PNG
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-2xl text-slate-500 font-bold hover:bg-slate-50 transition-all"
+            >
+              <X className="w-5 h-5" />
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useId, useMemo } from 'react';
+import { jsPDF } from 'jspdf';
+import { Brush } from 'lucide-react';
+import {
+  backCoverOps,
+  COVER_FONTS,
+  defaultDedication,
+  defaultSubtitle,
+  defaultTitle,
+  frontCoverOps,
+  type CoverContent,
+  type DrawOp
+} from '../cover.ts';
+import { computeSheet, type PageFrame, type PageLayout } from '../layout.ts';
+import { createTextMeasure } from '../pdf.ts';
+import type { CoverDesign, CoverFont, CoverFrame, CoverImagePlacement } from '../types.ts';
+
+interface CoverDesignerProps {
+  design: CoverDesign;
+  onChange: (design: CoverDesign) => void;
+  content: CoverContent;
+  layout: PageLayout;
+}
+
+const FRAME_OPTIONS: { value: CoverFrame; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'simple', label: 'Simple' },
+  { value: 'double', label: 'Double' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'corners', label: 'Corners' }
+];
+
+const PLACEMENT_OPTIONS: { value: CoverImagePlacement; label: string }[] = [
+  { value: 'below', label: 'Below the title' },
+  { value: 'above', label: 'Above the title' },
+  { value: 'full', label: 'Full cover' },
+  { value: 'none', label: 'No picture' }
+];
+
+/** Screen stand-ins for the PDF standard fonts; widths are pinned to the PDF's metrics. */
+const FONT_FAMILIES: Record<CoverFont, string> = {
+  helvetica: 'Helvetica, Arial, sans-serif',
+  times: '"Times New Roman", Times, serif',
+  courier: '"Courier New", Courier, monospace'
+};
+
+const PT_TO_MM = 25.4 / 72;
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm disabled:opacity-50";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+/** Draws the same operations the PDF export does, in millimetre coordinates. */
+function CoverSvg({ ops, frame, label }: { ops: DrawOp[]; frame: PageFrame; label: string }) {
+  const clipId = useId();
+  const { x, y, width, height } = frame.bleed;
+
+  return (
+    <svg viewBox={`${x} ${y} ${width} ${height}`} className="w-full h-auto rounded-lg shadow-lg border border-slate-100" role="img" aria-label={label}>
+      {ops.map((op, index) => {
+        switch (op.kind) {
+          case 'rect':
+            return (
+              <rect
+                key={index}
+                x={op.rect.x} y={op.rect.y} width={op.rect.width} height={op.rect.height}
+                rx={op.radius} ry={op.radius}
+                fill={op.fill ?? 'none'}
+                stroke={op.stroke}
+                strokeWidth={op.lineWidth}
+                strokeDasharray={op.dash?.join(' ')}
+                opacity={op.opacity}
+              />
+            );
+          case 'line':
+            return <line key={index} x1={op.from[0]} y1={op.from[1]} x2={op.to[0]} y2={op.to[1]} stroke={op.stroke} strokeWidth={op.lineWidth} />;
+          case 'circle':
+            return <circle key={index} cx={op.cx} cy={op.cy} r={op.r} fill={op.fill} />;
+          case 'text':
+            return (
+              <text
+                key={index}
+                x={op.x} y={op.y}
+                fontSize={op.size * PT_TO_MM}
+                fontFamily={FONT_FAMILIES[op.font]}
+                fontWeight={op.style === 'bold' ? 'bold' : 'normal'}
+                fontStyle={op.style === 'italic' ? 'italic' : 'normal'}
+                fill={op.color}
+                opacity={op.opacity}
+                textAnchor="middle"
+                textLength={op.width}
+                lengthAdjust="spacingAndGlyphs"
+              >
+                {op.text}
+              </text>
+            );
+          case 'image':
+            return (
+              <g key={index}>
+                {op.clip && (
+                  <clipPath id={`${clipId}-${index}`}>
+                    <rect x={op.clip.x} y={op.clip.y} width={op.clip.width} height={op.clip.height} />
+                  </clipPath>
+                )}
+                <image
+                  href={op.src}
+                  x={op.rect.x} y={op.rect.y} width={op.rect.width} height={op.rect.height}
+                  preserveAspectRatio="none"
+                  clipPath={op.clip ? `url(#${clipId}-${index})` : undefined}
+                />
+              </g>
+            );
+        }
+      })}
+    </svg>
+  );
+}
+
+/** Title, decoration and dedication controls, with a live preview of both covers as they will print. */
+export default function CoverDesigner({ design, onChange, content, layout }: CoverDesignerProps) {
+  const update = (changes: Partial<CoverDesign>) => onChange({ ...design, ...changes });
+  const measure = useMemo(() => createTextMeasure(new jsPDF({ unit: 'mm' })), []);
+
+  // Booklets print the back cover on the left half of the sheet and the front on the right.
+  const { frames } = computeSheet(layout);
+  const frontFrame = frames[frames.length - 1];
+  const backFrame = frames[0];
+  const front = frontCoverOps(design, content, frontFrame, layout.margin, measure);
+  const back = backCoverOps(design, content, backFrame, layout.margin, measure);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-slate-100 p-5 space-y-4 relative z-10">
+      <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <Brush className="w-4 h-4 text-orange-500" />
+        Cover designer
+      </span>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <span className={labelClass}>Title</span>
+            <input value={design.title} onChange={(e) => update({ title: e.target.value })} placeholder={defaultTitle(content.childName)} maxLength={80} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Subtitle</span>
+            <input value={design.subtitle} onChange={(e) => update({ subtitle: e.target.value })} placeholder={defaultSubtitle(content.theme)} maxLength={120} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <span className={labelClass}>Font</span>
+              <select value={design.font} onChange={(e) => update({ font: e.target.value as CoverFont })} className={`${inputClass} cursor-pointer`}>
+                {COVER_FONTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <span className={labelClass}>Frame</span>
+              <select value={design.frame} onChange={(e) => update({ frame: e.target.value as CoverFrame })} className={`${inputClass} cursor-pointer`}>
+                {FRAME_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <span className={labelClass}>Picture</span>
+              <select disabled={!content.art} value={design.imagePlacement} onChange={(e) => update({ imagePlacement: e.target.value as CoverImagePlacement })} className={`${inputClass} cursor-pointer`}>
+                {PLACEMENT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <span className={labelClass}>Badge</span>
+              <input value={design.badge} onChange={(e) => update({ badge: e.target.value })} placeholder="e.g. Ages 4+" maxLength={16} className={inputClass} />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Back cover dedication</span>
+            <textarea
+              value={design.dedication}
+              onChange={(e) => update({ dedication: e.target.value })}
+              placeholder={defaultDedication(content.childName)}
+              maxLength={300}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 items-start">
+          <div className="space-y-1.5">
+            <span className={labelClass}>Front</span>
+            <CoverSvg ops={front} frame={frontFrame} label="Front cover preview" />
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Back</span>
+            <CoverSvg ops={back} frame={backFrame} label="Back cover preview" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Baby } from 'lucide-react';
+import type { Difficulty } from '../types.ts';
+
+interface DifficultyPickerProps {
+  difficulty: Difficulty;
+  onChange: (difficulty: Difficulty) => void;
+}
+
+export const DIFFICULTY_OPTIONS: { value: Difficulty; label: string; ages: string; hint: string }[] = [
+  { value: 'toddler', label: 'Toddler', ages: '1-3', hint: 'One big, chunky picture per page with very thick lines and nothing in the background.' },
+  { value: 'preschool', label: 'Preschool', ages: '3-5', hint: 'Simple pictures with thick lines and a few small extras.' },
+  { value: 'early-reader', label: 'Early reader', ages: '5-7', hint: 'A little scene with patterns, faces and a simple background to color.' },
+  { value: 'older', label: 'Older kids', ages: '8+', hint: 'Detailed pages with fine lines, busy backgrounds and lots of small areas.' }
+];
+
+/** The age band that sets line thickness, detail and how busy each page is. */
+export default function DifficultyPicker({ difficulty, onChange }: DifficultyPickerProps) {
+  const selected = DIFFICULTY_OPTIONS.find(option => option.value === difficulty)!;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <Baby className="w-4 h-4 text-orange-500" />
+        Difficulty
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {DIFFICULTY_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${
+              difficulty === option.value
+                ? 'bg-orange-500 text-white shadow-sm'
+                : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+            }`}
+          >
+            {option.label} <span className="opacity-70">({option.ages})</span>
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">{selected.hint}</p>
+    </div>
+  );
+}
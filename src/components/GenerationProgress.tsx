@@ -0,0 +1,82 @@
+import { AlertCircle, Ban, CheckCircle2, Clock, Loader2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { TaskState } from '../scheduler.ts';
+
+interface GenerationProgressProps {
+  statuses: Record<number, TaskState>;
+  /** Chip names for pages that shouldn't be called "Page N", keyed like `statuses`. */
+  labels?: Record<number, string>;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES = {
+  queued: { icon: Clock, className: 'bg-slate-100 text-slate-500' },
+  running: { icon: Loader2, className: 'bg-orange-50 text-orange-600' },
+  done: { icon: CheckCircle2, className: 'bg-emerald-50 text-emerald-600' },
+  failed: { icon: AlertCircle, className: 'bg-red-50 text-red-600' },
+  cancelled: { icon: Ban, className: 'bg-slate-100 text-slate-400' },
+};
+
+const describe = (state: TaskState) => {
+  if (state.status === 'queued' && state.attempt > 0) return `Retrying (attempt ${state.attempt + 1})`;
+  if (state.status === 'running' && state.detail) return state.detail;
+  if (state.status === 'running' && state.attempt > 1) return `Drawing (attempt ${state.attempt})`;
+  return { queued: 'Waiting', running: 'Drawing', done: 'Done', failed: 'Failed', cancelled: 'Cancelled' }[state.status];
+};
+
+/** Overall progress bar plus a status chip for every page in the run. */
+export default function GenerationProgress({ statuses, labels = {}, onCancel }: GenerationProgressProps) {
+  const entries = Object.entries(statuses).map(([id, state]) => [Number(id), state] as const).sort(([a], [b]) => a - b);
+  const finished = entries.filter(([, state]) => state.status === 'done' || state.status === 'failed').length;
+  const progress = entries.length ? (finished / entries.length) * 100 : 0;
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="mb-12 space-y-4"
+    >
+      <div className="flex justify-between items-end mb-2">
+        <span className="text-slate-600 font-medium">Drawn {finished} of {entries.length} page{entries.length === 1 ? '' : 's'}...</span>
+        <div className="flex items-center gap-4">
+          <span className="text-orange-600 font-bold">{Math.round(progress)}%</span>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="h-3 w-full bg-slate-100 rounded-full overflow-hidden">
+        <motion.div 
+          className="h-full bg-orange-500"
+          initial={{ width: 0 }}
+          animate={{ width: `${progress}%` }}
+          transition={{ duration: 0.5 }}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center">
+        {entries.map(([id, state]) => {
+          const { icon: Icon, className } = STATUS_STYLES[state.status];
+          return (
+            <span
+              key={id}
+              title={state.error}
+              className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold ${className}`}
+            >
+              <Icon className={`w-3 h-3 ${state.status === 'running' ? 'animate-spin' : ''}`} />
+              {labels[id] ?? `Page ${id + 1}`} · {describe(state)}
+            </span>
+          );
+        })}
+      </div>
+      <p className="text-center text-slate-400 text-sm italic">
+        "Our AI artists are working hard on your thick lines!"
+      </p>
+    </motion.div>
+  );
+}
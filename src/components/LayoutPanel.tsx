@@ -0,0 +1,108 @@
+import { Printer } from 'lucide-react';
+import { computeSheet, PAPER_SIZES, type Imposition, type Orientation, type PageLayout, type PaperSize } from '../layout.ts';
+
+interface LayoutPanelProps {
+  layout: PageLayout;
+  onChange: (layout: PageLayout) => void;
+}
+
+const MARGIN_OPTIONS = [
+  { label: 'None', value: 0 },
+  { label: 'Narrow (10 mm)', value: 10 },
+  { label: 'Normal (20 mm)', value: 20 },
+  { label: 'Wide (30 mm)', value: 30 }
+];
+
+const BLEED_OPTIONS = [
+  { label: 'None', value: 0 },
+  { label: '3 mm', value: 3 },
+  { label: '⅛ inch', value: 3.175 }
+];
+
+const selectClass = "w-full px-3 py-2 rounded-xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm cursor-pointer disabled:opacity-50";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+const formatMm = (value: number) => Number(value.toFixed(1)).toString();
+
+/** Paper and page layout options for the PDF export. */
+export default function LayoutPanel({ layout, onChange }: LayoutPanelProps) {
+  const update = (changes: Partial<PageLayout>) => onChange({ ...layout, ...changes });
+  const sheet = computeSheet(layout);
+  // Booklets fix the sheet to landscape and print without bleed.
+  const booklet = layout.imposition === 'booklet';
+
+  const toggles: { key: 'border' | 'footer' | 'blankBacks'; label: string }[] = [
+    { key: 'border', label: 'Border around each page' },
+    { key: 'footer', label: 'Name in the footer' },
+    { key: 'blankBacks', label: 'Blank backs for double-sided printing' }
+  ];
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl border border-slate-100 p-5 space-y-4 relative z-10">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+          <Printer className="w-4 h-4 text-orange-500" />
+          Page layout
+        </span>
+        <span className="text-xs text-slate-400">
+          {formatMm(sheet.width)} × {formatMm(sheet.height)} mm{!booklet && layout.bleed > 0 ? ' including bleed' : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="space-y-1.5">
+          <span className={labelClass}>Printing</span>
+          <select value={layout.imposition} onChange={(e) => update({ imposition: e.target.value as Imposition })} className={selectClass}>
+            <option value="single">One page per sheet</option>
+            <option value="booklet">Folded booklet</option>
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Paper</span>
+          <select value={layout.paper} onChange={(e) => update({ paper: e.target.value as PaperSize })} className={selectClass}>
+            {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{PAPER_SIZES[size].label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Orientation</span>
+          <select disabled={booklet} value={layout.orientation} onChange={(e) => update({ orientation: e.target.value as Orientation })} className={selectClass}>
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Margins</span>
+          <select value={layout.margin} onChange={(e) => update({ margin: Number(e.target.value) })} className={selectClass}>
+            {MARGIN_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1.5">
+          <span className={labelClass}>Bleed</span>
+          <select disabled={booklet} value={layout.bleed} onChange={(e) => update({ bleed: Number(e.target.value) })} className={selectClass}>
+            {BLEED_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {toggles.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={layout[key]}
+              onChange={(e) => update({ [key]: e.target.checked })}
+              className="accent-orange-500"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {booklet && (
+        <p className="text-xs text-slate-400">
+          Print double-sided, flipping on the short edge, then fold the stack in half and staple along the fold.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, Download, FolderOpen, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { deleteBook, getBook, listBooks } from '../api.ts';
+import { downloadBookPdf, type PdfOptions } from '../pdf.ts';
+import type { Book, BookSummary } from '../types.ts';
+
+interface LibraryProps {
+  onOpen: (book: Book) => void;
+  /** Export settings for re-downloads, matching the create view's. */
+  pdfOptions: PdfOptions;
+}
+
+/** The "My Books" view: every saved book with open, re-download and delete actions. */
+export default function Library({ onOpen, pdfOptions }: LibraryProps) {
+  const [books, setBooks] = useState<BookSummary[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listBooks()
+      .then(setBooks)
+      .catch(() => setError("We couldn't load your saved books. Is the server running?"));
+  }, []);
+
+  const withBook = async (id: string, action: (book: Book) => void | Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action(await getBook(id));
+    } catch (err) {
+      console.error(`Error loading book ${id}:`, err);
+      setError("That book couldn't be loaded. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (summary: BookSummary) => {
+    if (!window.confirm(`Delete ${summary.childName}'s "${summary.theme}" book? This cannot be undone.`)) return;
+    setBusyId(summary.id);
+    try {
+      await deleteBook(summary.id);
+      setBooks(current => current?.filter(book => book.id !== summary.id) ?? null);
+    } catch (err) {
+      console.error(`Error deleting book ${summary.id}:`, err);
+      setError("That book couldn't be deleted. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-8 relative z-10">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900">My Books</h2>
+        <p className="text-slate-500">Every book you create is saved here, so you can reopen or print it again anytime.</p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-2xl bg-red-50 border border-red-100 text-red-600 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <p className="font-medium">{error}</p>
+        </div>
+      )}
+
+      {books === null && !error && (
+        <div className="flex justify-center py-12 text-slate-400">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
+      {books?.length === 0 && (
+        <div className="text-center py-16 bg-white/80 rounded-3xl border border-slate-100">
+          <BookOpen className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-slate-500">No saved books yet. Create your first coloring book!</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+        {books?.map((book, idx) => (
+          <motion.div
+            key={book.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: idx * 0.05 }}
+            className="bg-white rounded-2xl border border-slate-100 overflow-hidden shadow-sm hover:shadow-md transition-all flex flex-col"
+          >
+            <div className="aspect-square bg-slate-50 flex items-center justify-center">
+              {book.thumbnailUrl ? (
+                <img src={book.thumbnailUrl} alt={`${book.childName}'s book`} className="w-full h-full object-contain p-4" />
+              ) : (
+                <BookOpen className="w-12 h-12 text-slate-300" />
+              )}
+            </div>
+            <div className="p-4 space-y-3">
+              <div>
+                <h3 className="font-bold text-slate-900">{book.childName}'s Coloring Book</h3>
+                <p className="text-sm text-slate-500">
+                  {book.theme} · {book.pageCount} page{book.pageCount === 1 ? '' : 's'} · {new Date(book.updatedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => withBook(book.id, onOpen)}
+                  disabled={busyId === book.id}
+                  className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 disabled:bg-slate-300 transition-all"
+                >
+                  {busyId === book.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderOpen className="w-4 h-4" />}
+                  Open
+                </button>
+                <button
+                  onClick={() => withBook(book.id, saved => downloadBookPdf(saved, pdfOptions))}
+                  disabled={busyId === book.id}
+                  title="Download PDF"
+                  className="p-2 rounded-xl bg-orange-50 text-orange-600 hover:bg-orange-100 disabled:opacity-50 transition-all"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(book)}
+                  disabled={busyId === book.id}
+                  title="Delete book"
+                  className="p-2 rounded-xl bg-red-50 text-red-500 hover:bg-red-100 disabled:opacity-50 transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Eye, FileCode2, Hash, History, Loader2, Paintbrush, Pencil, RefreshCw, Upload } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { GeneratedPage } from '../types.ts';
+
+interface PageCardProps {
+  page: GeneratedPage;
+  index: number;
+  busy: boolean;
+  onRegenerate: (prompt: string) => void;
+  onReplace: (file: File) => void;
+  onDownloadSvg: () => void;
+  /** Opens the page in on-screen coloring mode. */
+  onColor: () => void;
+  /** Adds a color-by-number copy of the page; absent for pages that can't have one. */
+  onNumber?: () => void;
+}
+
+/** A results-grid card with per-page regenerate, edit-prompt and replace actions. */
+export default function PageCard({ page, index, busy, onRegenerate, onReplace, onDownloadSvg, onColor, onNumber }: PageCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftPrompt, setDraftPrompt] = useState(page.prompt);
+  const [isComparing, setIsComparing] = useState(false);
+  const canCompare = !!page.original && page.original !== page.base64;
+
+  const startEditing = () => {
+    setDraftPrompt(page.prompt);
+    setIsEditing(true);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onReplace(file);
+    e.target.value = '';
+  };
+
+  const actionClass = "p-2 rounded-lg bg-white/90 text-slate-500 hover:text-orange-600 hover:bg-orange-50 shadow-sm transition-colors";
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.1 }}
+      className="group relative aspect-square bg-white rounded-2xl border border-slate-100 overflow-hidden shadow-sm hover:shadow-md transition-all"
+    >
+      <img 
+        src={isComparing && canCompare ? page.original : page.base64} 
+        alt={`Coloring page ${index + 1}`}
+        className={`w-full h-full object-contain p-4 transition-opacity ${busy ? 'opacity-30' : ''}`}
+      />
+
+      {page.quality && !page.quality.passed && !isComparing && (
+        <span
+          title={page.quality.reasons.join('\n')}
+          className="absolute top-3 left-3 flex items-center gap-1 px-2 py-1 rounded-md bg-amber-50 text-amber-700 text-[10px] font-bold uppercase tracking-wider"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          May print poorly
+        </span>
+      )}
+
+      {page.cached && (
+        <span
+          title="Drawn earlier for the same request and reused from the cache, at no extra cost"
+          className="absolute bottom-3 left-3 flex items-center gap-1 px-2 py-1 rounded-md bg-sky-50 text-sky-700 text-[10px] font-bold uppercase tracking-wider group-hover:opacity-0 transition-opacity"
+        >
+          <History className="w-3 h-3" />
+          Reused
+        </span>
+      )}
+
+      {isComparing && canCompare && (
+        <span className="absolute top-3 left-3 px-2 py-1 rounded-md bg-slate-900/80 text-white text-[10px] font-bold uppercase tracking-wider">
+          Before cleanup
+        </span>
+      )}
+
+      {busy && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+        </div>
+      )}
+
+      {!busy && !isEditing && (
+        <div className="absolute top-3 right-3 flex gap-1.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {canCompare && (
+            <button
+              type="button"
+              title="Hold to see the page before cleanup"
+              onPointerDown={() => setIsComparing(true)}
+              onPointerUp={() => setIsComparing(false)}
+              onPointerLeave={() => setIsComparing(false)}
+              className={actionClass}
+            >
+              <Eye className="w-4 h-4" />
+            </button>
+          )}
+          <button type="button" title="Color it in on screen" onClick={onColor} className={actionClass}>
+            <Paintbrush className="w-4 h-4" />
+          </button>
+          {onNumber && (
+            <button type="button" title="Add a color-by-number copy" onClick={onNumber} className={actionClass}>
+              <Hash className="w-4 h-4" />
+            </button>
+          )}
+          {/* A color-by-number copy is made from its source page, so redrawing it would lose its numbers. */}
+          {!page.colorKey && (
+            <button type="button" title={page.activity ? 'Draw a new puzzle' : 'Regenerate this page'} onClick={() => onRegenerate(page.prompt)} className={actionClass}>
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          )}
+          {!page.activity && !page.colorKey && (
+            <button type="button" title="Edit prompt" onClick={startEditing} className={actionClass}>
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
+          <label title="Replace with your own line art" className={`${actionClass} cursor-pointer`}>
+            <Upload className="w-4 h-4" />
+            <input type="file" className="hidden" accept="image/*" onChange={handleFile} />
+          </label>
+          <button type="button" title="Download as SVG" onClick={onDownloadSvg} className={actionClass}>
+            <FileCode2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {isEditing && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setIsEditing(false);
+            onRegenerate(draftPrompt.trim());
+          }}
+          className="absolute inset-0 p-4 bg-white/95 flex flex-col gap-3"
+        >
+          <textarea
+            value={draftPrompt}
+            onChange={(e) => setDraftPrompt(e.target.value)}
+            maxLength={2000}
+            autoFocus
+            className="flex-1 w-full p-3 rounded-xl bg-slate-50 border border-slate-100 focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!draftPrompt.trim()}
+              className="flex-1 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 disabled:bg-slate-300 transition-all"
+            >
+              Save & Regenerate
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-2 rounded-xl bg-slate-100 text-slate-500 text-sm font-bold hover:bg-slate-200 transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-white/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest">
+            {page.photo && <img src={page.photo} className="w-6 h-6 rounded-md object-cover" alt="Original photo" title="Drawn from your photo" />}
+            {page.colored && <img src={page.colored} className="w-6 h-6 rounded-md object-cover border border-slate-200" alt="Colored version" title="Colored in on screen" />}
+            Page {index + 1}
+          </span>
+          {page.quality && (
+            <span
+              title={[
+                `${Math.round(page.quality.darkRatio * 100)}% ink, ${Math.round(page.quality.grayRatio * 100)}% gray`,
+                `${page.quality.regionCount} areas to color`,
+                ...(page.quality.attempts && page.quality.attempts > 1 ? [`Accepted after ${page.quality.attempts} drawings`] : []),
+                ...page.quality.reasons
+              ].join('\n')}
+              className={`text-xs font-bold font-mono ${page.quality.passed ? 'text-emerald-600' : 'text-amber-600'}`}
+            >
+              Score {page.quality.score}
+            </span>
+          )}
+        </div>
+        {page.quality && page.quality.reasons.length > 0 && (
+          <p className="mt-1 text-[11px] text-amber-700">{page.quality.reasons.join(' · ')}</p>
+        )}
+        {page.colorKey && (
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {page.colorKey.map((color, i) => (
+              <span key={i} className="flex items-center gap-0.5 text-[10px] font-bold text-slate-500">
+                {i + 1}
+                <span className="w-3 h-3 rounded-sm border border-slate-300" style={{ backgroundColor: color }} />
+              </span>
+            ))}
+          </div>
+        )}
+        {page.caption && (
+          <p className="mt-1 text-xs italic text-slate-600">{page.caption}</p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Camera, Plus, X } from 'lucide-react';
+
+interface PhotoPagesPickerProps {
+  photos: string[];
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  max: number;
+}
+
+/** Family photos that each become a line-art page after the theme pages. */
+export default function PhotoPagesPicker({ photos, onAdd, onRemove, max }: PhotoPagesPickerProps) {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length) onAdd(files.slice(0, max - photos.length));
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 uppercase tracking-wider">
+        <Camera className="w-4 h-4 text-orange-500" />
+        Photo Pages (Optional)
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        {photos.map((photo, index) => (
+          <div key={index} className="relative w-20 h-20 rounded-xl overflow-hidden border border-slate-100 group">
+            <img src={photo} className="w-full h-full object-cover" alt={`Photo page ${index + 1}`} />
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              title="Remove photo"
+              className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < max && (
+          <label className="flex flex-col items-center justify-center w-20 h-20 border-2 border-dashed border-slate-200 rounded-xl cursor-pointer hover:bg-slate-50 transition-all group">
+            <Plus className="w-5 h-5 text-slate-400 group-hover:text-orange-500" />
+            <span className="text-[10px] font-bold text-slate-400 uppercase">Add</span>
+            <input type="file" className="hidden" accept="image/*" multiple onChange={handleChange} />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-slate-400">
+        Add photos of your child, pets or favorite places and each one becomes its own coloring page, up to {max}.
+      </p>
+    </div>
+  );
+}
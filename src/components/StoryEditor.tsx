@@ -0,0 +1,85 @@
+import { motion } from 'motion/react';
+import { BookOpen, Loader2, Paintbrush, RefreshCw } from 'lucide-react';
+import type { StoryScene } from '../types.ts';
+
+interface StoryEditorProps {
+  scenes: StoryScene[];
+  onChange: (scenes: StoryScene[]) => void;
+  onRewrite: () => void;
+  onDraw: () => void;
+  /** True while a new outline is being written. */
+  rewriting: boolean;
+}
+
+const fieldClass = "w-full px-3 py-2 rounded-xl bg-slate-50 border-transparent focus:bg-white focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm";
+
+/** The story outline, editable scene by scene before any pages are drawn. */
+export default function StoryEditor({ scenes, onChange, onRewrite, onDraw, rewriting }: StoryEditorProps) {
+  const updateScene = (index: number, changes: Partial<StoryScene>) =>
+    onChange(scenes.map((scene, i) => i === index ? { ...scene, ...changes } : scene));
+  const complete = scenes.every(scene => scene.caption.trim() && scene.illustration.trim());
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-sm border border-slate-100 p-8 mb-12 space-y-6 relative z-10"
+    >
+      <div>
+        <h2 className="flex items-center gap-2 text-2xl font-bold text-slate-900">
+          <BookOpen className="w-6 h-6 text-orange-500" />
+          Your Story
+        </h2>
+        <p className="text-slate-500">Tweak the words or what each picture shows, then draw the pages.</p>
+      </div>
+
+      <ol className="space-y-4">
+        {scenes.map((scene, index) => (
+          <li key={index} className="flex gap-4">
+            <span className="shrink-0 w-8 h-8 rounded-full bg-orange-100 text-orange-600 font-bold flex items-center justify-center text-sm">
+              {index + 1}
+            </span>
+            <div className="flex-1 space-y-2">
+              <textarea
+                value={scene.caption}
+                onChange={(e) => updateScene(index, { caption: e.target.value })}
+                rows={2}
+                maxLength={300}
+                aria-label={`Scene ${index + 1} caption`}
+                className={`${fieldClass} resize-none`}
+              />
+              <input
+                value={scene.illustration}
+                onChange={(e) => updateScene(index, { illustration: e.target.value })}
+                maxLength={1000}
+                aria-label={`Scene ${index + 1} picture`}
+                className={`${fieldClass} text-slate-500`}
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end">
+        <button
+          type="button"
+          onClick={onRewrite}
+          disabled={rewriting}
+          className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl bg-slate-100 text-slate-600 font-bold hover:bg-slate-200 disabled:opacity-50 transition-all"
+        >
+          {rewriting ? <Loader2 className="w-5 h-5 animate-spin" /> : <RefreshCw className="w-5 h-5" />}
+          Write a New Story
+        </button>
+        <button
+          type="button"
+          onClick={onDraw}
+          disabled={rewriting || !complete}
+          className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl bg-orange-500 text-white font-bold hover:bg-orange-600 disabled:bg-orange-300 transition-all shadow-lg shadow-orange-100"
+        >
+          <Paintbrush className="w-5 h-5" />
+          Draw {scenes.length} Page{scenes.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </motion.section>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { PACK_PLACEHOLDERS, TEMPLATES, parseThemePack } from '../themePacks.ts';
+import type { ThemePack } from '../types.ts';
+
+interface ThemePackEditorProps {
+  pack: ThemePack;
+  onSave: (pack: ThemePack) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-xl bg-white border border-slate-100 focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm";
+const labelClass = "text-xs font-bold text-slate-400 uppercase tracking-widest";
+
+/** Form for a custom pack; page prompts are edited one per line. */
+export default function ThemePackEditor({ pack, onSave, onCancel }: ThemePackEditorProps) {
+  const [draft, setDraft] = useState({ ...pack, promptText: pack.prompts.join('\n') });
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<typeof draft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const save = () => {
+    try {
+      const prompts = draft.promptText.split('\n').map(line => line.trim()).filter(Boolean);
+      onSave({ ...parseThemePack({ ...draft, prompts }), id: pack.id });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-2xl bg-slate-50 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <span className={labelClass}>Pack name</span>
+          <input value={draft.name} onChange={(e) => update({ name: e.target.value })} maxLength={60} className={inputClass} />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1.5">
+            <span className={labelClass}>From age</span>
+            <input type="number" min={0} max={18} value={draft.minAge} onChange={(e) => update({ minAge: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>To age</span>
+            <input type="number" min={0} max={18} value={draft.maxAge} onChange={(e) => update({ maxAge: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="space-y-1.5">
+            <span className={labelClass}>Cover</span>
+            <select value={draft.palette} onChange={(e) => update({ palette: e.target.value })} className={`${inputClass} cursor-pointer`}>
+              {TEMPLATES.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <span className={labelClass}>Description</span>
+        <input value={draft.description} onChange={(e) => update({ description: e.target.value })} maxLength={300} className={inputClass} />
+      </div>
+      <div className="space-y-1.5">
+        <span className={labelClass}>Page prompts, one per line</span>
+        <textarea
+          value={draft.promptText}
+          onChange={(e) => update({ promptText: e.target.value })}
+          rows={6}
+          className={`${inputClass} resize-y font-mono`}
+        />
+        <p className="text-xs text-slate-400">You can use {PACK_PLACEHOLDERS.join(', ')} in a prompt.</p>
+      </div>
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-500 text-sm font-bold hover:bg-slate-200 transition-all">
+          Cancel
+        </button>
+        <button type="button" onClick={save} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition-all">
+          Save Pack
+        </button>
+      </div>
+    </div>
+  );
+}
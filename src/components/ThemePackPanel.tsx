@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Copy, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { saveFile } from '../images.ts';
+import { BUILT_IN_PACKS, exportThemePack, importThemePack } from '../themePacks.ts';
+import type { ThemePack } from '../types.ts';
+import ThemePackEditor from './ThemePackEditor.tsx';
+
+interface ThemePackPanelProps {
+  /** Built-in packs followed by the user's own. */
+  packs: ThemePack[];
+  selectedId: string | null;
+  onSelect: (pack: ThemePack) => void;
+  onSave: (pack: ThemePack) => void;
+  onDelete: (id: string) => void;
+  pageCount: number;
+}
+
+const actionClass = "flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-orange-500 uppercase tracking-wider transition-colors";
+
+const newPack = (from?: ThemePack): ThemePack => ({
+  name: from ? `${from.name} (copy)` : '',
+  description: from?.description ?? '',
+  prompts: from?.prompts ?? [],
+  palette: from?.palette ?? 'classic',
+  minAge: from?.minAge ?? 3,
+  maxAge: from?.maxAge ?? 8,
+  id: `custom-${crypto.randomUUID()}`
+});
+
+/** Theme pack chips with create, edit, import and export. Built-in packs are copied before editing. */
+export default function ThemePackPanel({ packs, selectedId, onSelect, onSave, onDelete, pageCount }: ThemePackPanelProps) {
+  const [editing, setEditing] = useState<ThemePack | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const selected = packs.find(pack => pack.id === selectedId) ?? null;
+  const isBuiltIn = BUILT_IN_PACKS.some(pack => pack.id === selectedId);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = await importThemePack(file);
+      setImportError(null);
+      onSave(pack);
+      onSelect(pack);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  const handleSave = (pack: ThemePack) => {
+    onSave(pack);
+    onSelect(pack);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="flex flex-wrap gap-2">
+        {packs.map(pack => (
+          <button
+            key={pack.id}
+            type="button"
+            onClick={() => onSelect(pack)}
+            title={pack.description}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${
+              pack.id === selectedId
+                ? 'bg-orange-500 text-white shadow-sm'
+                : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+            }`}
+          >
+            {pack.name}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <p className="text-xs text-slate-400">
+          {selected.description && <>{selected.description} </>}
+          Ages {selected.minAge}-{selected.maxAge} · {selected.prompts.length} page idea{selected.prompts.length === 1 ? '' : 's'}
+          {pageCount > selected.prompts.length && ', so longer books reuse some of them'}.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button type="button" onClick={() => setEditing(newPack())} className={actionClass}>
+          <Plus className="w-3.5 h-3.5" /> New Pack
+        </button>
+        <label className={`${actionClass} cursor-pointer`}>
+          <Upload className="w-3.5 h-3.5" /> Import
+          <input type="file" className="hidden" accept="application/json,.json" onChange={handleImport} />
+        </label>
+        {selected && (
+          <>
+            {isBuiltIn ? (
+              <button type="button" onClick={() => setEditing(newPack(selected))} className={actionClass}>
+                <Copy className="w-3.5 h-3.5" /> Copy to Edit
+              </button>
+            ) : (
+              <button type="button" onClick={() => setEditing(selected)} className={actionClass}>
+                <Pencil className="w-3.5 h-3.5" /> Edit
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => saveFile(exportThemePack(selected), 'application/json', `${selected.name.replace(/[^\w-]+/g, '_')}.json`)}
+              className={actionClass}
+            >
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            {!isBuiltIn && (
+              <button type="button" onClick={() => onDelete(selected.id)} className={`${actionClass} hover:text-red-500`}>
+                <Trash2 className="w-3.5 h-3.5" /> Delete
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      {importError && <p className="text-xs font-bold text-red-500">{importError}</p>}
+
+      {editing && (
+        <ThemePackEditor key={editing.id} pack={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
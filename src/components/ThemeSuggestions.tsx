@@ -0,0 +1,40 @@
+import { Sparkles } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { ThemePack } from '../types.ts';
+
+interface ThemeSuggestionsProps {
+  /** Why the last idea couldn't be drawn, worded for a child. */
+  message: string;
+  packs: ThemePack[];
+  onPick: (pack: ThemePack) => void;
+}
+
+/** Shown instead of an error when a theme was turned down, with other themes to try. */
+export default function ThemeSuggestions({ message, packs, onPick }: ThemeSuggestionsProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="mb-12 p-5 rounded-2xl bg-orange-50 border border-orange-100 space-y-3"
+    >
+      <p className="flex items-center gap-3 font-medium text-orange-700">
+        <Sparkles className="w-5 h-5 shrink-0" />
+        {message}
+      </p>
+      <p className="text-sm text-slate-500">How about one of these instead?</p>
+      <div className="flex flex-wrap gap-2">
+        {packs.map(pack => (
+          <button
+            key={pack.id}
+            type="button"
+            onClick={() => onPick(pack)}
+            title={pack.description}
+            className="px-4 py-2 rounded-xl bg-white border border-orange-100 text-sm font-bold text-orange-600 hover:bg-orange-100 transition-all"
+          >
+            {pack.name}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
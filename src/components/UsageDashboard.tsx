@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, BarChart3, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { getUsage, loadUserName, saveUserName } from '../api.ts';
+import type { UsageKind, UsageReport } from '../types.ts';
+
+const PERIODS = [7, 14, 30];
+
+const KIND_LABELS: Record<UsageKind, string> = {
+  page: 'Page',
+  cover: 'Cover',
+  story: 'Story'
+};
+
+const formatCost = (usd: number) => `$${usd.toFixed(2)}`;
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const formatQuota = (used: number, quota: number | null) => quota === null ? `${used} (no limit)` : `${used} of ${quota}`;
+
+/** The "Usage" view: who has been generating, how it went, and roughly what it cost. */
+export default function UsageDashboard() {
+  const [days, setDays] = useState(14);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [userName, setUserName] = useState(loadUserName);
+  // Bumped when the name is saved, so the report reloads as the new user.
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let current = true;
+    setError(null);
+    getUsage(days)
+      .then(next => { if (current) setReport(next); })
+      .catch(() => { if (current) setError("We couldn't load the usage numbers. Is the server running?"); });
+    return () => { current = false; };
+  }, [days, version]);
+
+  const saveName = () => {
+    saveUserName(userName);
+    setVersion(value => value + 1);
+  };
+
+  const busiestDay = Math.max(1, ...(report?.daily.map(day => day.images + day.stories) ?? []));
+  const totalCost = report?.users.reduce((sum, user) => sum + user.estimatedCostUsd, 0) ?? 0;
+
+  return (
+    <section className="space-y-8 relative z-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Usage</h2>
+          <p className="text-slate-500">Every picture and story asked of the AI, by who asked for it. Reused pictures are free and not counted.</p>
+        </div>
+        <div className="inline-flex p-1 rounded-xl bg-slate-100">
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              type="button"
+              onClick={() => setDays(period)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${days === period ? 'bg-white text-orange-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {period} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 rounded-3xl bg-white/80 border border-slate-100 space-y-3">
+        <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">Who's drawing on this device?</label>
+        <div className="flex gap-2">
+          <input
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') saveName(); }}
+            maxLength={40}
+            placeholder="e.g. Aaru"
+            className="flex-1 px-4 py-2 rounded-xl bg-slate-50 border border-slate-100 focus:border-orange-200 focus:ring-4 focus:ring-orange-50 outline-none text-sm"
+          />
+          <button type="button" onClick={saveName} className="px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition-all">
+            Save
+          </button>
+        </div>
+        {report && (
+          <p className="text-sm text-slate-500">
+            Counting as <span className="font-bold text-slate-700">{report.you.user}</span>:{' '}
+            {formatQuota(report.you.imagesToday, report.you.quota)} pictures today.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-2xl bg-red-50 border border-red-100 text-red-600 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <p className="font-medium">{error}</p>
+        </div>
+      )}
+
+      {report === null && !error && (
+        <div className="flex justify-center py-12 text-slate-400">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      )}
+
+      {report && report.users.length === 0 && (
+        <div className="text-center py-16 bg-white/80 rounded-3xl border border-slate-100">
+          <BarChart3 className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-slate-500">Nothing generated in the last {report.days} days.</p>
+        </div>
+      )}
+
+      {report && report.users.length > 0 && (
+        <>
+          <div className="p-6 rounded-3xl bg-white/80 border border-slate-100 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-wider">
+                  <th className="pb-3 pr-4">Who</th>
+                  <th className="pb-3 pr-4">Today</th>
+                  <th className="pb-3 pr-4">Pictures</th>
+                  <th className="pb-3 pr-4">Stories</th>
+                  <th className="pb-3 pr-4">Failed</th>
+                  <th className="pb-3 pr-4">Avg. time</th>
+                  <th className="pb-3 text-right">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.users.map(user => (
+                  <tr key={user.user} className="text-slate-600">
+                    <td className="py-2 pr-4 font-bold text-slate-700">{user.user}</td>
+                    <td className={`py-2 pr-4 ${user.quota !== null && user.imagesToday >= user.quota ? 'text-red-600 font-bold' : ''}`}>
+                      {formatQuota(user.imagesToday, user.quota)}
+                    </td>
+                    <td className="py-2 pr-4">{user.images}</td>
+                    <td className="py-2 pr-4">{user.stories}</td>
+                    <td className="py-2 pr-4">{user.failures}</td>
+                    <td className="py-2 pr-4">{formatSeconds(user.averageLatencyMs)}</td>
+                    <td className="py-2 text-right font-mono">{formatCost(user.estimatedCostUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-4 text-xs text-slate-400">
+              {formatCost(totalCost)} in the last {report.days} days, estimated at {formatCost(report.costPerImageUsd)} a picture. Stories cost next to nothing.
+            </p>
+          </div>
+
+          <div className="p-6 rounded-3xl bg-white/80 border border-slate-100 space-y-2">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">By day</h3>
+            {report.daily.map(day => (
+              <div key={day.date} className="flex items-center gap-3 text-xs">
+                <span className="w-24 shrink-0 font-mono text-slate-500">{day.date}</span>
+                <div className="flex-1 h-3 rounded-full bg-slate-100 overflow-hidden flex">
+                  <div className="h-full bg-orange-500" style={{ width: `${(day.images / busiestDay) * 100}%` }} />
+                  <div className="h-full bg-sky-400" style={{ width: `${(day.stories / busiestDay) * 100}%` }} />
+                </div>
+                <span className="w-40 shrink-0 text-slate-500">
+                  {day.images} picture{day.images === 1 ? '' : 's'}, {day.stories} stor{day.stories === 1 ? 'y' : 'ies'}
+                  {day.failures > 0 && <span className="text-red-500">, {day.failures} failed</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-6 rounded-3xl bg-white/80 border border-slate-100">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Latest calls</h3>
+            <ul className="divide-y divide-slate-100 text-sm">
+              {report.recent.map((call, i) => (
+                <li key={i} className="flex items-center gap-3 py-2 text-slate-600">
+                  {call.ok
+                    ? <CheckCircle2 className="w-4 h-4 shrink-0 text-emerald-500" />
+                    : <XCircle className="w-4 h-4 shrink-0 text-red-500" />}
+                  <span className="w-36 shrink-0 font-mono text-xs text-slate-400">{new Date(call.createdAt).toLocaleString()}</span>
+                  <span className="w-28 shrink-0 truncate font-bold text-slate-700">{call.user}</span>
+                  <span className="w-14 shrink-0">{KIND_LABELS[call.kind]}</span>
+                  <span className="w-14 shrink-0 text-xs">{formatSeconds(call.latencyMs)}</span>
+                  <span className="flex-1 min-w-0 truncate text-xs text-red-500" title={call.error}>{call.error}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * Cover artwork as a flat list of drawing operations in millimetres. The PDF export and
+ * the on-screen preview both render the same list, so what you see is what prints.
+ */
+
+import { inset, type PageFrame, type Rect } from './layout.ts';
+import type { CoverDesign, CoverFont, CoverPalette } from './types.ts';
+
+export type FontStyle = 'normal' | 'bold' | 'italic';
+
+export type DrawOp =
+  | { kind: 'rect'; rect: Rect; fill?: string; stroke?: string; lineWidth?: number; dash?: number[]; radius?: number; opacity?: number }
+  | { kind: 'line'; from: [number, number]; to: [number, number]; stroke: string; lineWidth: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill: string }
+  /** `y` is the baseline; `width` is the measured advance, so renderers can pin the text to it. */
+  | { kind: 'text'; text: string; x: number; y: number; size: number; font: CoverFont; style: FontStyle; color: string; opacity?: number; width: number }
+  /** Drawn into `rect`; anything outside `clip` is cut away. */
+  | { kind: 'image'; src: string; rect: Rect; clip?: Rect };
+
+/** Width in mm of `text` set at `size` pt. */
+export type TextMeasure = (text: string, font: CoverFont, style: FontStyle, size: number) => number;
+
+export interface CoverContent {
+  childName: string;
+  theme: string;
+  palette: CoverPalette;
+  /** The stylized photo, or the first page when there is none. */
+  art: string | null;
+  pageCount: number;
+}
+
+export const DEFAULT_COVER_DESIGN: CoverDesign = {
+  title: '',
+  subtitle: '',
+  font: 'helvetica',
+  frame: 'simple',
+  badge: '',
+  imagePlacement: 'below',
+  dedication: ''
+};
+
+export const COVER_FONTS: { value: CoverFont; label: string }[] = [
+  { value: 'helvetica', label: 'Clean' },
+  { value: 'times', label: 'Storybook' },
+  { value: 'courier', label: 'Typewriter' }
+];
+
+export const defaultTitle = (childName: string) => `${childName}'s Coloring Book`;
+export const defaultSubtitle = (theme: string) => `Theme: ${theme}`;
+export const defaultDedication = (childName: string) => `Made with love for ${childName}`;
+
+const PT_TO_MM = 25.4 / 72;
+const LINE_HEIGHT = 1.2;
+/** Text column width the type sizes were chosen for (A4 portrait with normal margins). */
+const DESIGN_WIDTH = 170;
+const CREDIT_SPACE = 12;
+
+interface TextLine {
+  text: string;
+  size: number;
+  style: FontStyle;
+  color: string;
+  opacity?: number;
+}
+
+/** Greedy word wrap; a single word wider than the line is left to overflow. */
+function wrap(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Largest size from `maxSize` down to `minSize` at which `text` wraps into `maxLines` that
+ * all fit. A single line is preferred while it only costs a little size.
+ */
+function fitText(text: string, font: CoverFont, style: FontStyle, maxSize: number, minSize: number, maxWidth: number, maxLines: number, measure: TextMeasure) {
+  for (let size = maxSize; maxLines > 1 && size >= Math.max(minSize, maxSize * 0.75); size -= 1) {
+    if (measure(text, font, style, size) <= maxWidth) return { size, lines: [text] };
+  }
+  let size = maxSize;
+  for (; size > minSize; size -= 1) {
+    const lines = wrap(text, maxWidth, line => measure(line, font, style, size));
+    if (lines.length <= maxLines && lines.every(line => measure(line, font, style, size) <= maxWidth)) {
+      return { size, lines };
+    }
+  }
+  return { size, lines: wrap(text, maxWidth, line => measure(line, font, style, size)).slice(0, maxLines) };
+}
+
+const lineHeight = (size: number) => size * PT_TO_MM * LINE_HEIGHT;
+
+/** Stacks centered lines under `top`, returning the ops and where the block ends. */
+function stackText(lines: TextLine[], centerX: number, top: number, font: CoverFont, measure: TextMeasure) {
+  let y = top;
+  const ops: DrawOp[] = lines.map(line => {
+    y += lineHeight(line.size);
+    return {
+      kind: 'text',
+      text: line.text,
+      x: centerX,
+      // Sit the baseline a little above the bottom of the line box, leaving room for descenders.
+      y: y - line.size * PT_TO_MM * 0.28,
+      size: line.size,
+      font,
+      style: line.style,
+      color: line.color,
+      opacity: line.opacity,
+      width: measure(line.text, font, line.style, line.size)
+    };
+  });
+  return { ops, bottom: y };
+}
+
+const blockHeight = (lines: TextLine[]) => lines.reduce((total, line) => total + lineHeight(line.size), 0);
+
+function frameOps(frame: CoverDesign['frame'], trim: Rect, margin: number, color: string): DrawOp[] {
+  const box = inset(trim, Math.max(4, margin / 2));
+  switch (frame) {
+    case 'simple':
+      return [{ kind: 'rect', rect: box, stroke: color, lineWidth: 1.5 }];
+    case 'double':
+      return [
+        { kind: 'rect', rect: box, stroke: color, lineWidth: 1.5 },
+        { kind: 'rect', rect: inset(box, 2.5), stroke: color, lineWidth: 0.5 }
+      ];
+    case 'dashed':
+      return [{ kind: 'rect', rect: box, stroke: color, lineWidth: 1, dash: [3, 2], radius: 4 }];
+    case 'corners': {
+      const arm = Math.min(15, box.width / 4, box.height / 4);
+      const right = box.x + box.width;
+      const bottom = box.y + box.height;
+      const corners: [number, number, number, number][] = [
+        [box.x, box.y, 1, 1], [right, box.y, -1, 1], [box.x, bottom, 1, -1], [right, bottom, -1, -1]
+      ];
+      return corners.flatMap(([x, y, dx, dy]): DrawOp[] => [
+        { kind: 'line', from: [x, y], to: [x + arm * dx, y], stroke: color, lineWidth: 2 },
+        { kind: 'line', from: [x, y], to: [x, y + arm * dy], stroke: color, lineWidth: 2 }
+      ]);
+    }
+    default:
+      return [];
+  }
+}
+
+function badgeOps(badge: string, safe: Rect, scale: number, font: CoverFont, color: string, measure: TextMeasure): DrawOp[] {
+  if (!badge.trim()) return [];
+  const r = 14 * scale;
+  const cx = safe.x + safe.width - r;
+  const cy = safe.y + r;
+  const fitted = fitText(badge.trim(), font, 'bold', 12 * scale, 5, r * 1.5, 2, measure);
+  const lines = fitted.lines.map(text => ({ text, size: fitted.size, style: 'bold' as const, color: '#ffffff' }));
+  return [
+    { kind: 'circle', cx, cy, r, fill: color },
+    ...stackText(lines, cx, cy - blockHeight(lines) / 2, font, measure).ops
+  ];
+}
+
+/** Image box covering `area` entirely, for art cropped to a full-bleed background. */
+const coverSquare = (area: Rect): Rect => {
+  const size = Math.max(area.width, area.height);
+  return { x: area.x + (area.width - size) / 2, y: area.y + (area.height - size) / 2, width: size, height: size };
+};
+
+export function frontCoverOps(design: CoverDesign, content: CoverContent, frame: PageFrame, margin: number, measure: TextMeasure): DrawOp[] {
+  const { palette, art } = content;
+  const { safe } = frame;
+  const landscape = frame.trim.width > frame.trim.height;
+  const placement = art ? design.imagePlacement : 'none';
+  const sideBySide = landscape && (placement === 'below' || placement === 'above');
+  const columnWidth = sideBySide ? safe.width / 2 - 5 : safe.width;
+  const scale = Math.min(1, columnWidth / DESIGN_WIDTH);
+  const usable = safe.height - CREDIT_SPACE;
+
+  const title = fitText(design.title.trim() || defaultTitle(content.childName), design.font, 'bold', 44 * scale, 14, columnWidth, 2, measure);
+  const subtitle = fitText(design.subtitle.trim() || defaultSubtitle(content.theme), design.font, 'italic', 18 * scale, 8, columnWidth, 2, measure);
+  const titleLines: TextLine[] = title.lines.map(text => ({ text, size: title.size, style: 'bold', color: palette.textColor }));
+  const subtitleLines: TextLine[] = subtitle.lines.map(text => ({ text, size: subtitle.size, style: 'italic', color: palette.textColor, opacity: 0.75 }));
+  const accentGap = 6 * scale;
+  const textHeight = blockHeight(titleLines) + accentGap + blockHeight(subtitleLines);
+
+  const ops: DrawOp[] = [{ kind: 'rect', rect: frame.bleed, fill: palette.bgColor }];
+
+  const textBlock = (centerX: number, top: number): DrawOp[] => {
+    const heading = stackText(titleLines, centerX, top, design.font, measure);
+    const barWidth = Math.min(30 * scale, columnWidth / 3);
+    const bar: DrawOp = { kind: 'rect', rect: { x: centerX - barWidth / 2, y: heading.bottom + accentGap / 2 - 0.6, width: barWidth, height: 1.2 }, fill: palette.accentColor };
+    return [...heading.ops, bar, ...stackText(subtitleLines, centerX, heading.bottom + accentGap, design.font, measure).ops];
+  };
+
+  const centerX = safe.x + safe.width / 2;
+  if (placement === 'full' && art) {
+    ops.push({ kind: 'image', src: art, rect: coverSquare(frame.bleed), clip: frame.bleed });
+    const band = { x: safe.x - 4, y: safe.y - 4, width: safe.width + 8, height: textHeight + 8 };
+    ops.push({ kind: 'rect', rect: band, fill: palette.bgColor, radius: 3, opacity: 0.85 });
+    ops.push(...textBlock(centerX, safe.y));
+  } else if (sideBySide && art) {
+    const column = safe.width / 2;
+    const size = Math.max(0, Math.min(column - 10, usable));
+    const [textColumn, imageColumn] = placement === 'below' ? [0, 1] : [1, 0];
+    ops.push(...textBlock(safe.x + column * textColumn + column / 2, safe.y + (usable - textHeight) / 2));
+    ops.push({ kind: 'image', src: art, rect: { x: safe.x + column * imageColumn + (column - size) / 2, y: safe.y + (usable - size) / 2, width: size, height: size } });
+  } else if (placement !== 'none' && art) {
+    const gap = 10 * scale;
+    const size = Math.max(0, Math.min(safe.width * 0.75, usable - textHeight - gap));
+    const top = safe.y + (usable - textHeight - gap - size) / 2;
+    const imageTop = placement === 'below' ? top + textHeight + gap : top;
+    const textTop = placement === 'below' ? top : top + size + gap;
+    ops.push({ kind: 'image', src: art, rect: { x: centerX - size / 2, y: imageTop, width: size, height: size } });
+    ops.push(...textBlock(centerX, textTop));
+  } else {
+    ops.push(...textBlock(centerX, safe.y + (usable - textHeight) / 2));
+  }
+
+  ops.push(...frameOps(design.frame, frame.trim, margin, palette.accentColor));
+  ops.push(...badgeOps(design.badge, safe, scale, design.font, palette.accentColor, measure));
+  ops.push(...stackText([{ text: 'Generated with AI Magic', size: 10, style: 'normal', color: palette.textColor, opacity: 0.5 }],
+    centerX, safe.y + safe.height - lineHeight(10), design.font, measure).ops);
+  return ops;
+}
+
+export function backCoverOps(design: CoverDesign, content: CoverContent, frame: PageFrame, margin: number, measure: TextMeasure): DrawOp[] {
+  const { palette } = content;
+  const { safe } = frame;
+  const scale = Math.min(1, safe.width / DESIGN_WIDTH);
+  const centerX = safe.x + safe.width / 2;
+
+  const dedication = fitText(design.dedication.trim() || defaultDedication(content.childName), design.font, 'italic', 20 * scale, 8, safe.width * 0.8, 8, measure);
+  const lines: TextLine[] = dedication.lines.map(text => ({ text, size: dedication.size, style: 'italic', color: palette.textColor }));
+  const pageLine = `${content.pageCount} ${content.pageCount === 1 ? 'page' : 'pages'} to color · ${content.theme}`;
+  const details = fitText(pageLine, design.font, 'normal', 11 * scale, 6, safe.width, 1, measure);
+  const gap = 8 * scale;
+  const top = safe.y + (safe.height - blockHeight(lines) - gap - lineHeight(details.size)) / 2;
+
+  const message = stackText(lines, centerX, top, design.font, measure);
+  const barWidth = Math.min(30 * scale, safe.width / 3);
+  return [
+    { kind: 'rect', rect: frame.bleed, fill: palette.bgColor },
+    ...message.ops,
+    { kind: 'rect', rect: { x: centerX - barWidth / 2, y: message.bottom + gap / 2 - 0.6, width: barWidth, height: 1.2 }, fill: palette.accentColor },
+    ...stackText(details.lines.map(text => ({ text, size: details.size, style: 'normal' as const, color: palette.textColor, opacity: 0.6 })),
+      centerX, message.bottom + gap, design.font, measure).ops,
+    ...frameOps(design.frame, frame.trim, margin, palette.accentColor)
+  ];
+}
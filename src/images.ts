@@ -0,0 +1,115 @@
+import { binarize, bitmapToRgba, cleanupPixels, luminance, type CleanupSettings } from './lineArt.ts';
+import { analyzePixels, type QualityReport, type QualityThresholds } from './quality.ts';
+import { toSvg, traceBitmap, type VectorArt } from './trace.ts';
+import type { GeneratedPage } from './types.ts';
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+/**
+ * Re-encodes any image as a square PNG, letterboxed on white, so uploads match
+ * the 1:1 pages the PDF layout expects.
+ */
+export async function toSquarePng(src: string, size = 1024): Promise<string> {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  const scale = Math.min(size / image.width, size / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  ctx.drawImage(image, (size - width) / 2, (size - height) / 2, width, height);
+
+  return canvas.toDataURL('image/png');
+}
+
+/** Decodes an image to RGBA, optionally downscaled so its longest side is at most `maxSize`. */
+export async function getImagePixels(src: string, maxSize = Infinity): Promise<ImageData> {
+  const image = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export function pixelsToDataUrl(rgba: Uint8ClampedArray, width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(rgba), width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/** Applies the line-art cleanup pipeline to an image and returns a black-and-white PNG. */
+export async function cleanLineArt(src: string, settings: CleanupSettings): Promise<string> {
+  const { data, width, height } = await getImagePixels(src);
+  return pixelsToDataUrl(bitmapToRgba(cleanupPixels(data, width, height, settings)), width, height);
+}
+
+/**
+ * Scores an image's printability, taking gray coverage from `original` when it
+ * was cleaned up; analysis runs at reduced size since it only needs proportions.
+ */
+export async function analyzeImage(src: string, original = src, thresholds?: QualityThresholds): Promise<QualityReport> {
+  const { data, width, height } = await getImagePixels(src, 512);
+  if (original === src) return analyzePixels(data, width, height, thresholds);
+  const raw = await getImagePixels(original, 512);
+  const sameSize = raw.width === width && raw.height === height;
+  return analyzePixels(data, width, height, thresholds, sameSize ? raw.data : data);
+}
+
+/**
+ * Re-derives a page's printed image from its original, so changing or turning
+ * off cleanup never compounds earlier processing.
+ */
+export async function cleanPage(page: GeneratedPage, settings: CleanupSettings): Promise<GeneratedPage> {
+  const original = page.original ?? page.base64;
+  if (!settings.enabled) return { ...page, base64: original, original };
+  try {
+    return { ...page, base64: await cleanLineArt(original, settings), original };
+  } catch (err) {
+    console.error(`Error cleaning up page ${page.id}:`, err);
+    return { ...page, base64: original, original };
+  }
+}
+
+/** Traces an image's dark strokes into vector outlines. */
+export async function traceImage(src: string): Promise<VectorArt> {
+  const { data, width, height } = await getImagePixels(src);
+  return traceBitmap(binarize(luminance(data), width, height, 128, false));
+}
+
+export function saveFile(content: BlobPart, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function downloadPageSvg(page: GeneratedPage, filename: string) {
+  saveFile(toSvg(await traceImage(page.base64)), 'image/svg+xml', filename);
+}
@@ -0,0 +1,155 @@
+/**
+ * Print geometry for the PDF export. Everything here is plain millimetre math so
+ * the renderer only has to draw into the rectangles it is handed.
+ */
+
+export type PaperSize = 'a4' | 'letter';
+export type Orientation = 'portrait' | 'landscape';
+/** `booklet` prints two pages per landscape sheet in saddle-stitch order, ready to fold and staple. */
+export type Imposition = 'single' | 'booklet';
+
+export interface PageLayout {
+  paper: PaperSize;
+  orientation: Orientation;
+  imposition: Imposition;
+  /** Distance from the trim edge to the artwork, in mm. */
+  margin: number;
+  /** Extra background printed past the trim edge for professional cutting, in mm. */
+  bleed: number;
+  border: boolean;
+  footer: boolean;
+  /** Insert an empty page after every printed page so markers can't bleed through in duplex printing. */
+  blankBacks: boolean;
+}
+
+export const DEFAULT_LAYOUT: PageLayout = {
+  paper: 'a4',
+  orientation: 'portrait',
+  imposition: 'single',
+  margin: 20,
+  bleed: 0,
+  border: true,
+  footer: true,
+  blankBacks: false
+};
+
+/** Portrait trim sizes in mm. */
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 }
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextAnchor {
+  x: number;
+  y: number;
+}
+
+/** Where one reading page sits on the printed sheet. */
+export interface PageFrame {
+  /** Trim grown by the bleed; full-bleed backgrounds fill this. */
+  bleed: Rect;
+  /** Finished page after trimming. */
+  trim: Rect;
+  /** Trim inset by the margin; artwork stays inside it. */
+  safe: Rect;
+}
+
+export interface Sheet {
+  /** Media size including any bleed. */
+  width: number;
+  height: number;
+  /** One frame per reading page printed on each side, left to right. */
+  frames: PageFrame[];
+}
+
+export interface ColoringPagePlacement {
+  art: Rect;
+  /** Band under the artwork for a story caption. */
+  caption: Rect | null;
+  border: Rect | null;
+  footer: TextAnchor | null;
+}
+
+/** Height kept free under the artwork for the footer line. */
+const FOOTER_SPACE = 10;
+/** Height kept free under the artwork for up to three caption lines or a color-by-number key. */
+const CAPTION_SPACE = 24;
+
+export const inset = (rect: Rect, by: number): Rect => ({
+  x: rect.x + by,
+  y: rect.y + by,
+  width: Math.max(0, rect.width - by * 2),
+  height: Math.max(0, rect.height - by * 2)
+});
+
+const frameFor = (trim: Rect, bleed: number, margin: number): PageFrame => ({
+  bleed: inset(trim, -bleed),
+  trim,
+  safe: inset(trim, margin)
+});
+
+/**
+ * Booklets always use the paper in landscape with a page on each half, and skip the
+ * bleed since home printers can't print to the fold anyway.
+ */
+export function computeSheet(layout: PageLayout): Sheet {
+  const paper = PAPER_SIZES[layout.paper];
+
+  if (layout.imposition === 'booklet') {
+    const half = paper.height / 2;
+    return {
+      width: paper.height,
+      height: paper.width,
+      frames: [0, half].map(x => frameFor({ x, y: 0, width: half, height: paper.width }, 0, layout.margin))
+    };
+  }
+
+  const landscape = layout.orientation === 'landscape';
+  const trimWidth = landscape ? paper.height : paper.width;
+  const trimHeight = landscape ? paper.width : paper.height;
+  const trim = { x: layout.bleed, y: layout.bleed, width: trimWidth, height: trimHeight };
+
+  return {
+    width: trimWidth + layout.bleed * 2,
+    height: trimHeight + layout.bleed * 2,
+    frames: [frameFor(trim, layout.bleed, layout.margin)]
+  };
+}
+
+/**
+ * Reading-page indexes for each printed side, as [left, right]. Sheet `n` carries the
+ * outermost remaining pages on its front and their neighbours on its back, so the
+ * stack folds into order. `pageCount` must be a multiple of four.
+ */
+export function bookletSides(pageCount: number): [number, number][] {
+  const sides: [number, number][] = [];
+  for (let n = 0; n < pageCount / 4; n++) {
+    sides.push([pageCount - 1 - 2 * n, 2 * n]);
+    sides.push([2 * n + 1, pageCount - 2 - 2 * n]);
+  }
+  return sides;
+}
+
+/** Centers the square artwork in the safe area, above the caption and footer when there are any. */
+export function placeColoringPage(frame: PageFrame, layout: PageLayout, captioned = false): ColoringPagePlacement {
+  const { safe } = frame;
+  const footerSpace = layout.footer ? FOOTER_SPACE : 0;
+  const captionSpace = captioned ? CAPTION_SPACE : 0;
+  const available = safe.height - footerSpace - captionSpace;
+  const size = Math.max(0, Math.min(safe.width, available));
+  const artTop = safe.y + (available - size) / 2;
+
+  return {
+    art: { x: safe.x + (safe.width - size) / 2, y: artTop, width: size, height: size },
+    caption: captioned ? { x: safe.x, y: artTop + size, width: safe.width, height: captionSpace } : null,
+    border: layout.border ? inset(frame.trim, layout.margin / 2) : null,
+    footer: layout.footer ? { x: safe.x + safe.width / 2, y: safe.y + safe.height - 3 } : null
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Canvas-free pixel operations that turn model output into printable line art:
+ * pure black strokes on pure white paper. Everything here works on plain typed
+ * arrays so it can be reused by analysis and tracing code.
+ */
+
+/** A 1-bit image: `ink[i]` is 1 for a black pixel and 0 for paper. */
+export interface Bitmap {
+  width: number;
+  height: number;
+  ink: Uint8Array;
+}
+
+export interface CleanupSettings {
+  enabled: boolean;
+  /** Luminance (0-255) at and above which a pixel is paper. */
+  threshold: number;
+  /** Whiten gray areas that don't touch a line, turning shaded fills into colorable space. */
+  removeGrayFills: boolean;
+  /** Ink specks and paper pinholes smaller than this many pixels (at 1024px) are erased. */
+  despeckleArea: number;
+  /** Minimum stroke width in pixels (at 1024px); 0 leaves lines as drawn. */
+  strokeWidth: number;
+  /** White border forced around the page, as a fraction of its width. */
+  margin: number;
+}
+
+export const DEFAULT_CLEANUP: CleanupSettings = {
+  enabled: true,
+  threshold: 160,
+  removeGrayFills: true,
+  despeckleArea: 24,
+  strokeWidth: 0,
+  margin: 0.03
+};
+
+/** Settings are tuned for 1024px pages; this scales lengths to the actual image. */
+const REFERENCE_SIZE = 1024;
+
+/** Perceived brightness per pixel, with transparency composited onto white. */
+export function luminance(rgba: Uint8ClampedArray): Uint8Array {
+  const lum = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < lum.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const value = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    lum[i] = Math.round(value * alpha + 255 * (1 - alpha));
+  }
+  return lum;
+}
+
+const forEachNeighbor = (index: number, width: number, height: number, visit: (neighbor: number) => void) => {
+  const x = index % width;
+  const y = (index - x) / width;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if ((dx || dy) && x + dx >= 0 && x + dx < width && y + dy >= 0 && y + dy < height) {
+        visit(index + dy * width + dx);
+      }
+    }
+  }
+};
+
+/**
+ * Splits pixels into ink and paper. With `removeGrayFills`, only clearly dark
+ * pixels are ink outright; mid-grays become ink only where they continue an
+ * existing line (anti-aliased edges) and paper everywhere else (shaded fills).
+ */
+export function binarize(lum: Uint8Array, width: number, height: number, threshold: number, removeGrayFills: boolean): Bitmap {
+  const ink = new Uint8Array(lum.length);
+  if (!removeGrayFills) {
+    for (let i = 0; i < lum.length; i++) ink[i] = lum[i] < threshold ? 1 : 0;
+    return { width, height, ink };
+  }
+
+  const dark = threshold / 2;
+  for (let i = 0; i < lum.length; i++) ink[i] = lum[i] < dark ? 1 : 0;
+
+  // Grow lines into the gray band a couple of pixels, enough to keep soft edges.
+  for (let pass = 0; pass < 2; pass++) {
+    const grown: number[] = [];
+    for (let i = 0; i < lum.length; i++) {
+      if (ink[i] || lum[i] >= threshold) continue;
+      let touchesInk = false;
+      forEachNeighbor(i, width, height, n => { touchesInk ||= ink[n] === 1; });
+      if (touchesInk) grown.push(i);
+    }
+    grown.forEach(i => { ink[i] = 1; });
+  }
+  return { width, height, ink };
+}
+
+export interface Components {
+  /** Component id per pixel, or -1 for pixels that don't match. */
+  labels: Int32Array;
+  /** Pixel count per component id. */
+  sizes: number[];
+}
+
+/** 8-connected components of pixels where `mask[i] === value`. */
+export function labelComponents(mask: Uint8Array, width: number, height: number, value: number): Components {
+  const labels = new Int32Array(mask.length).fill(-1);
+  const sizes: number[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== value || labels[start] !== -1) continue;
+    const id = sizes.length;
+    let size = 0;
+    labels[start] = id;
+    stack.push(start);
+    while (stack.length) {
+      const index = stack.pop()!;
+      size++;
+      forEachNeighbor(index, width, height, n => {
+        if (mask[n] === value && labels[n] === -1) {
+          labels[n] = id;
+          stack.push(n);
+        }
+      });
+    }
+    sizes.push(size);
+  }
+  return { labels, sizes };
+}
+
+/** Erases ink blobs below `minArea` and fills paper holes below it. */
+export function despeckle(bitmap: Bitmap, minArea: number): Bitmap {
+  const { width, height } = bitmap;
+  const ink = bitmap.ink.slice();
+  for (const value of [1, 0]) {
+    const { labels, sizes } = labelComponents(ink, width, height, value);
+    for (let i = 0; i < ink.length; i++) {
+      if (labels[i] !== -1 && sizes[labels[i]] < minArea) ink[i] = 1 - value;
+    }
+  }
+  return { width, height, ink };
+}
+
+/** Approximate Euclidean distance (chamfer 1/√2) from each pixel to the nearest pixel with `mask === target`. */
+export function distanceTo(mask: Uint8Array, width: number, height: number, target: number): Float32Array {
+  const dist = new Float32Array(mask.length);
+  for (let i = 0; i < mask.length; i++) dist[i] = mask[i] === target ? 0 : Infinity;
+
+  const diagonal = Math.SQRT2;
+  const relax = (i: number, n: number, cost: number) => {
+    if (dist[n] + cost < dist[i]) dist[i] = dist[n] + cost;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 1);
+      if (y > 0) {
+        relax(i, i - width, 1);
+        if (x > 0) relax(i, i - width - 1, diagonal);
+        if (x < width - 1) relax(i, i - width + 1, diagonal);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 1);
+      if (y < height - 1) {
+        relax(i, i + width, 1);
+        if (x < width - 1) relax(i, i + width + 1, diagonal);
+        if (x > 0) relax(i, i + width - 1, diagonal);
+      }
+    }
+  }
+  return dist;
+}
+
+/**
+ * Typical stroke width: twice the median distance-to-paper measured along
+ * stroke centerlines (local maxima of the distance field).
+ */
+export function medianStrokeWidth({ width, height, ink }: Bitmap): number {
+  const dist = distanceTo(ink, width, height, 0);
+  const ridge: number[] = [];
+  for (let i = 0; i < ink.length; i++) {
+    if (!ink[i]) continue;
+    let isMax = true;
+    forEachNeighbor(i, width, height, n => { isMax &&= dist[n] <= dist[i]; });
+    if (isMax) ridge.push(dist[i]);
+  }
+  if (!ridge.length) return 0;
+  ridge.sort((a, b) => a - b);
+  return ridge[Math.floor(ridge.length / 2)] * 2;
+}
+
+/** Grows every stroke outward by `radius` pixels. */
+export function dilate({ width, height, ink }: Bitmap, radius: number): Bitmap {
+  const dist = distanceTo(ink, width, height, 1);
+  return { width, height, ink: Uint8Array.from(dist, d => (d <= radius ? 1 : 0)) };
+}
+
+/** Forces a white border `size` pixels wide. */
+export function clearMargin({ width, height, ink }: Bitmap, size: number): Bitmap {
+  const cleared = ink.slice();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x < size || y < size || x >= width - size || y >= height - size) cleared[y * width + x] = 0;
+    }
+  }
+  return { width, height, ink: cleared };
+}
+
+/** Runs the full cleanup pipeline on RGBA pixels. */
+export function cleanupPixels(rgba: Uint8ClampedArray, width: number, height: number, settings: CleanupSettings): Bitmap {
+  const scale = Math.max(width, height) / REFERENCE_SIZE;
+  let bitmap = binarize(luminance(rgba), width, height, settings.threshold, settings.removeGrayFills);
+
+  if (settings.despeckleArea > 0) {
+    bitmap = despeckle(bitmap, settings.despeckleArea * scale * scale);
+  }
+  if (settings.strokeWidth > 0) {
+    const missing = settings.strokeWidth * scale - medianStrokeWidth(bitmap);
+    if (missing > 0) bitmap = dilate(bitmap, missing / 2);
+  }
+  if (settings.margin > 0) {
+    bitmap = clearMargin(bitmap, Math.round(settings.margin * width));
+  }
+  return bitmap;
+}
+
+export function bitmapToRgba({ ink }: Bitmap): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(ink.length * 4);
+  for (let i = 0; i < ink.length; i++) {
+    const value = ink[i] ? 0 : 255;
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = value;
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
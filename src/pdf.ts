@@ -0,0 +1,270 @@
+import { GState, jsPDF } from 'jspdf';
+import { traceImage } from './images.ts';
+import { backCoverOps, DEFAULT_COVER_DESIGN, frontCoverOps, type DrawOp, type TextMeasure } from './cover.ts';
+import { bookletSides, computeSheet, DEFAULT_LAYOUT, placeColoringPage, type PageFrame, type PageLayout, type Rect } from './layout.ts';
+import { forEachSegment, type VectorArt } from './trace.ts';
+import type { BookContent } from './types.ts';
+
+export interface PdfOptions {
+  /** Embed traced vector outlines instead of bitmaps, for crisp lines at any size. */
+  vector?: boolean;
+  layout?: PageLayout;
+  /** Print pages that were colored in on screen in color, instead of their line art. */
+  colored?: boolean;
+}
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return [r, g, b];
+};
+
+/** Measures with jsPDF's own font metrics, so layouts computed for the screen match the PDF. */
+export const createTextMeasure = (doc: jsPDF): TextMeasure => (text, font, style, size) => {
+  doc.setFont(font, style);
+  doc.setFontSize(size);
+  return doc.getTextWidth(text);
+};
+
+const withOpacity = (doc: jsPDF, opacity: number | undefined, draw: () => void) => {
+  if (opacity === undefined) return draw();
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity, 'stroke-opacity': opacity }));
+  draw();
+  doc.restoreGraphicsState();
+};
+
+/** Renders cover artwork; see `cover.ts`. */
+function drawOps(doc: jsPDF, ops: DrawOp[]) {
+  ops.forEach(op => {
+    switch (op.kind) {
+      case 'rect': {
+        const { x, y, width, height } = op.rect;
+        const style = op.fill && op.stroke ? 'FD' : op.fill ? 'F' : 'S';
+        if (op.fill) doc.setFillColor(op.fill);
+        if (op.stroke) {
+          doc.setDrawColor(op.stroke);
+          doc.setLineWidth(op.lineWidth ?? 0.2);
+          doc.setLineDashPattern(op.dash ?? [], 0);
+        }
+        withOpacity(doc, op.opacity, () => {
+          if (op.radius) doc.roundedRect(x, y, width, height, op.radius, op.radius, style);
+          else doc.rect(x, y, width, height, style);
+        });
+        doc.setLineDashPattern([], 0);
+        break;
+      }
+      case 'line':
+        doc.setDrawColor(op.stroke);
+        doc.setLineWidth(op.lineWidth);
+        doc.line(op.from[0], op.from[1], op.to[0], op.to[1]);
+        break;
+      case 'circle':
+        doc.setFillColor(op.fill);
+        doc.circle(op.cx, op.cy, op.r, 'F');
+        break;
+      case 'text':
+        doc.setFont(op.font, op.style);
+        doc.setFontSize(op.size);
+        doc.setTextColor(op.color);
+        withOpacity(doc, op.opacity, () => doc.text(op.text, op.x, op.y, { align: 'center' }));
+        break;
+      case 'image':
+        if (!op.clip) {
+          doc.addImage(op.src, 'PNG', op.rect.x, op.rect.y, op.rect.width, op.rect.height);
+          break;
+        }
+        doc.saveGraphicsState();
+        doc.rect(op.clip.x, op.clip.y, op.clip.width, op.clip.height, null);
+        doc.clip();
+        doc.discardPath();
+        doc.addImage(op.src, 'PNG', op.rect.x, op.rect.y, op.rect.width, op.rect.height);
+        doc.restoreGraphicsState();
+        break;
+    }
+  });
+  // Later pages use the default font and line width.
+  doc.setFont('helvetica', 'normal');
+  doc.setLineWidth(0.2);
+}
+
+/** Fills traced outlines into a `size` x `size` box, scaled to keep the art's aspect ratio. */
+function drawVectorArt(doc: jsPDF, art: VectorArt, x: number, y: number, size: number) {
+  const scale = size / Math.max(art.width, art.height);
+  const offsetX = x + (size - art.width * scale) / 2;
+  const offsetY = y + (size - art.height * scale) / 2;
+  const at = ([px, py]: [number, number]): [number, number] => [offsetX + px * scale, offsetY + py * scale];
+
+  let current: [number, number] = [0, 0];
+  doc.setFillColor(0, 0, 0);
+  art.contours.forEach(contour => {
+    forEachSegment(contour, {
+      move: point => {
+        current = at(point);
+        doc.moveTo(...current);
+      },
+      line: point => {
+        current = at(point);
+        doc.lineTo(...current);
+      },
+      // PDF only has cubic curves; raise the quadratic to an equivalent cubic.
+      curve: (control, point) => {
+        const [cx, cy] = at(control);
+        const [ex, ey] = at(point);
+        doc.curveTo(
+          current[0] + (2 / 3) * (cx - current[0]), current[1] + (2 / 3) * (cy - current[1]),
+          ex + (2 / 3) * (cx - ex), ey + (2 / 3) * (cy - ey),
+          ex, ey
+        );
+        current = [ex, ey];
+      }
+    });
+    doc.close();
+  });
+  doc.fillEvenOdd();
+}
+
+/** One reading page of the printed book, before imposition. */
+type PrintedPage =
+  | { kind: 'cover' }
+  | { kind: 'coloring'; index: number }
+  | { kind: 'drawing' }
+  | { kind: 'blank' }
+  | { kind: 'back' };
+
+/**
+ * Lays the book out in reading order, ending with the back cover. Booklets are padded
+ * in front of it with draw-your-own pages (or blanks, when backs must stay clean) to
+ * fill whole folded sheets.
+ */
+function readingOrder(pageCount: number, layout: PageLayout): PrintedPage[] {
+  const order: PrintedPage[] = [{ kind: 'cover' }];
+  for (let index = 0; index < pageCount; index++) {
+    if (layout.blankBacks) order.push({ kind: 'blank' });
+    order.push({ kind: 'coloring', index });
+  }
+  if (layout.blankBacks) order.push({ kind: 'blank' });
+  while (layout.imposition === 'booklet' && order.length % 4 !== 3) {
+    order.push({ kind: layout.blankBacks ? 'blank' : 'drawing' });
+  }
+  order.push({ kind: 'back' });
+  return order;
+}
+
+/** Renders a book to PDF and triggers the browser download. */
+export async function downloadBookPdf(book: BookContent, options: PdfOptions = {}) {
+  (await renderBookPdf(book, options)).save(bookPdfFilename(book.childName));
+}
+
+export const bookPdfFilename = (childName: string) => `${childName}_Coloring_Book.pdf`;
+
+/** Renders a book to an in-memory PDF. */
+export async function renderBookPdf({ childName, theme, palette, coverImage, pages, cover }: BookContent, options: PdfOptions = {}) {
+  const coloredArt = (index: number) => options.colored ? pages[index].colored : undefined;
+  // Trace up front so a failure leaves no half-built document behind. Colored pages stay bitmaps.
+  const vectorPages = options.vector
+    ? await Promise.all(pages.map((page, index) => coloredArt(index) ? null : traceImage(page.base64)))
+    : null;
+
+  const layout = options.layout ?? DEFAULT_LAYOUT;
+  const sheet = computeSheet(layout);
+  const doc = new jsPDF({
+    orientation: sheet.width > sheet.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [sheet.width, sheet.height]
+  });
+
+  const design = cover ?? DEFAULT_COVER_DESIGN;
+  const coverContent = { childName, theme, palette, art: coverImage ?? pages[0]?.base64 ?? null, pageCount: pages.length };
+  const measure = createTextMeasure(doc);
+
+  const drawBorder = (frame: PageFrame) => {
+    const { border } = placeColoringPage(frame, layout);
+    if (!border) return;
+    doc.setDrawColor(200, 200, 200);
+    doc.rect(border.x, border.y, border.width, border.height);
+  };
+
+  /** A row of numbered swatches, centered in the space under the art. */
+  const drawColorKey = (box: Rect, colors: string[]) => {
+    const entry = Math.min(box.width / colors.length, 24);
+    const swatch = Math.min(entry * 0.5, 10);
+    const left = box.x + (box.width - entry * colors.length) / 2;
+    const top = box.y + (box.height - swatch) / 2;
+    doc.setFontSize(swatch * 1.6);
+    doc.setTextColor(60, 60, 60);
+    doc.setDrawColor(60, 60, 60);
+    doc.setLineWidth(0.3);
+    colors.forEach((color, index) => {
+      const x = left + entry * index + (entry - swatch * 1.8) / 2;
+      doc.text(String(index + 1), x + swatch * 0.35, top + swatch * 0.75, { align: 'center' });
+      doc.setFillColor(...hexToRgb(color));
+      doc.rect(x + swatch * 0.8, top, swatch, swatch, 'FD');
+    });
+  };
+
+  const drawColoringPage = (frame: PageFrame, index: number) => {
+    const { caption, colorKey } = pages[index];
+    const placement = placeColoringPage(frame, layout, Boolean(caption || colorKey));
+    drawBorder(frame);
+    
+    // Our images are 1:1, so the art box is always square.
+    const { x, y, width } = placement.art;
+    const vector = vectorPages?.[index];
+    if (vector) {
+      drawVectorArt(doc, vector, x, y, width);
+    } else {
+      doc.addImage(coloredArt(index) ?? pages[index].base64, 'PNG', x, y, width, width);
+    }
+
+    if (colorKey && placement.caption) {
+      drawColorKey(placement.caption, colorKey);
+    } else if (caption && placement.caption) {
+      const box = placement.caption;
+      const size = 14 * Math.min(1, box.width / 170);
+      doc.setFontSize(size);
+      doc.setTextColor(60, 60, 60);
+      const lines = (doc.splitTextToSize(caption, box.width) as string[]).slice(0, 3);
+      doc.text(lines, box.x + box.width / 2, box.y + 4 + size * 0.35, { align: 'center', lineHeightFactor: 1.3 });
+    }
+    
+    if (placement.footer) {
+      doc.setFontSize(10);
+      doc.setTextColor(150, 150, 150);
+      doc.text(`Page for ${childName}`, placement.footer.x, placement.footer.y, { align: 'center' });
+    }
+  };
+
+  const drawDrawingPage = (frame: PageFrame) => {
+    const { safe } = frame;
+    drawBorder(frame);
+    doc.setFontSize(20);
+    doc.setTextColor(150, 150, 150);
+    doc.text("Draw your own picture!", safe.x + safe.width / 2, safe.y + 8, { align: 'center' });
+    doc.setDrawColor(150, 150, 150);
+    doc.setLineDashPattern([2, 2], 0);
+    doc.rect(safe.x, safe.y + 16, safe.width, Math.max(0, safe.height - 16));
+    doc.setLineDashPattern([], 0);
+  };
+
+  const order = readingOrder(pages.length, layout);
+  const sides = layout.imposition === 'booklet' ? bookletSides(order.length) : order.map((_, index) => [index]);
+
+  sides.forEach((side, sideIndex) => {
+    if (sideIndex > 0) doc.addPage();
+    side.forEach((pageIndex, slot) => {
+      const page = order[pageIndex];
+      const frame = sheet.frames[slot];
+      switch (page.kind) {
+        case 'cover': return drawOps(doc, frontCoverOps(design, coverContent, frame, layout.margin, measure));
+        case 'coloring': return drawColoringPage(frame, page.index);
+        case 'drawing': return drawDrawingPage(frame);
+        case 'back': return drawOps(doc, backCoverOps(design, coverContent, frame, layout.margin, measure));
+        case 'blank': return;
+      }
+    });
+  });
+
+  return doc;
+}
@@ -0,0 +1,39 @@
+import { analyzeImage, cleanPage } from './images.ts';
+import type { CleanupSettings } from './lineArt.ts';
+import type { QualityReport } from './quality.ts';
+import type { GeneratedPage } from './types.ts';
+
+/** Redraws allowed per page when it fails the quality gate. */
+export const QUALITY_RETRIES = 2;
+
+/** Cleans up a page and scores the result, since the cleaned image is what gets printed; shading is judged on the original. */
+export async function finishPage(page: GeneratedPage, cleanup: CleanupSettings, attempts?: number): Promise<GeneratedPage> {
+  // Activity and color-by-number pages are drawn crisp already, and despeckling would erase their dots and digits.
+  if (page.activity || page.colorKey) return page;
+  const cleaned = await cleanPage(page, cleanup);
+  try {
+    return { ...cleaned, quality: { ...(await analyzeImage(cleaned.base64, cleaned.original)), attempts } };
+  } catch (err) {
+    console.error(`Error analyzing page ${page.id}:`, err);
+    return { ...cleaned, quality: undefined };
+  }
+}
+
+/**
+ * Draws a page, redrawing up to `QUALITY_RETRIES` times while it fails the
+ * quality gate. The best-scoring attempt is kept even if none pass.
+ */
+export async function drawWithQualityGate(
+  draw: () => Promise<GeneratedPage>,
+  cleanup: () => CleanupSettings,
+  onRejected?: (report: QualityReport) => void
+): Promise<GeneratedPage> {
+  let best: GeneratedPage | null = null;
+  for (let attempt = 1; attempt <= QUALITY_RETRIES + 1; attempt++) {
+    const page = await finishPage(await draw(), cleanup(), attempt);
+    if (!page.quality || page.quality.passed) return page;
+    if (!best || page.quality.score > best.quality!.score) best = page;
+    if (attempt <= QUALITY_RETRIES) onRejected?.(page.quality);
+  }
+  return best!;
+}
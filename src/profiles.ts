@@ -0,0 +1,57 @@
+import { templateById } from './themePacks.ts';
+import type { ChildProfile, Difficulty } from './types.ts';
+
+const PROFILES_STORAGE_KEY = 'coloringBook.profiles';
+const DIFFICULTIES: Difficulty[] = ['toddler', 'preschool', 'early-reader', 'older'];
+export const MAX_FAVORITE_THEMES = 10;
+
+export const newProfile = (): ChildProfile => ({
+  id: `child-${crypto.randomUUID()}`,
+  name: '',
+  difficulty: 'preschool',
+  favoriteThemes: [],
+  template: 'classic'
+});
+
+/**
+ * Validates a profile from the editor or storage, throwing a message fit to
+ * show the user. Unknown templates fall back to the first one.
+ */
+export function parseProfile(data: unknown): ChildProfile {
+  const profile = data as Partial<ChildProfile> | null;
+  if (!profile || typeof profile !== 'object' || typeof profile.id !== 'string') throw new Error('This is not a child profile.');
+  if (typeof profile.name !== 'string' || !profile.name.trim() || profile.name.length > 40) {
+    throw new Error('A child needs a name of at most 40 characters.');
+  }
+  if (!DIFFICULTIES.includes(profile.difficulty as Difficulty)) throw new Error('Pick an age band for this child.');
+  if (!Array.isArray(profile.favoriteThemes) || profile.favoriteThemes.length > MAX_FAVORITE_THEMES ||
+      !profile.favoriteThemes.every(theme => typeof theme === 'string' && theme.trim() && theme.length <= 60)) {
+    throw new Error(`List up to ${MAX_FAVORITE_THEMES} favorite themes of at most 60 characters each.`);
+  }
+  return {
+    id: profile.id,
+    name: profile.name.trim(),
+    difficulty: profile.difficulty as Difficulty,
+    favoriteThemes: profile.favoriteThemes.map(theme => theme.trim()),
+    template: templateById(String(profile.template)).id,
+    ...(typeof profile.photo === 'string' && profile.photo.startsWith('data:image/') ? { photo: profile.photo } : {})
+  };
+}
+
+export function loadProfiles(): ChildProfile[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.flatMap(profile => {
+      try {
+        return [parseProfile(profile)];
+      } catch {
+        return [];
+      }
+    }) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const saveProfiles = (profiles: ChildProfile[]) =>
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
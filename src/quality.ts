@@ -0,0 +1,113 @@
+import { binarize, labelComponents, luminance } from './lineArt.ts';
+
+/**
+ * How printable a page is, measured on the image that will actually be printed,
+ * except for gray tones, which cleanup thresholds away and are measured on the drawing as returned.
+ */
+export interface QualityReport {
+  /** 0-100; higher is better. */
+  score: number;
+  passed: boolean;
+  /** Human-readable reasons the page failed, empty when it passed. */
+  reasons: string[];
+  /** Fraction of the page covered in ink. */
+  darkRatio: number;
+  /** Fraction of the raw drawing in mid-gray tones (shading, gradients). */
+  grayRatio: number;
+  /** Enclosed white regions a child could color in. */
+  regionCount: number;
+  /** Of those regions, the fraction too small to color. */
+  tinyRegionRatio: number;
+  /** How many drawings were tried before this one was accepted. */
+  attempts?: number;
+}
+
+export interface QualityThresholds {
+  maxDarkRatio: number;
+  maxGrayRatio: number;
+  minRegions: number;
+  maxTinyRegionRatio: number;
+  /** Regions smaller than this many pixels (at 1024px) count as unfillable. */
+  minRegionArea: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  maxDarkRatio: 0.35,
+  maxGrayRatio: 0.12,
+  minRegions: 3,
+  maxTinyRegionRatio: 0.6,
+  minRegionArea: 150
+};
+
+const REFERENCE_SIZE = 1024;
+const GRAY_MIN = 60;
+const GRAY_MAX = 200;
+
+/**
+ * Scores RGBA pixels against the thresholds. `raw` is the same page before
+ * cleanup, same size, for measuring gray; it defaults to `rgba` itself.
+ */
+export function analyzePixels(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  raw: Uint8ClampedArray = rgba
+): QualityReport {
+  const total = width * height;
+  const lum = luminance(rgba);
+  const rawLum = raw === rgba ? lum : luminance(raw);
+  const { ink } = binarize(lum, width, height, 128, false);
+
+  let inkCount = 0;
+  let grayCount = 0;
+  for (let i = 0; i < total; i++) {
+    inkCount += ink[i];
+    if (rawLum[i] >= GRAY_MIN && rawLum[i] < GRAY_MAX) grayCount++;
+  }
+
+  // White regions touching the edge are background, not something to color in.
+  const { labels, sizes } = labelComponents(ink, width, height, 0);
+  const open = new Set<number>();
+  for (let x = 0; x < width; x++) {
+    open.add(labels[x]);
+    open.add(labels[(height - 1) * width + x]);
+  }
+  for (let y = 0; y < height; y++) {
+    open.add(labels[y * width]);
+    open.add(labels[y * width + width - 1]);
+  }
+  const scale = Math.max(width, height) / REFERENCE_SIZE;
+  const minArea = thresholds.minRegionArea * scale * scale;
+  const enclosed = sizes.filter((_, id) => !open.has(id));
+  const tiny = enclosed.filter(size => size < minArea).length;
+
+  const darkRatio = inkCount / total;
+  const grayRatio = grayCount / total;
+  const regionCount = enclosed.length - tiny;
+  const tinyRegionRatio = enclosed.length ? tiny / enclosed.length : 0;
+
+  const reasons: string[] = [];
+  if (darkRatio > thresholds.maxDarkRatio) reasons.push(`Too much solid black (${Math.round(darkRatio * 100)}% ink)`);
+  if (grayRatio > thresholds.maxGrayRatio) reasons.push(`Shaded or photoreal (${Math.round(grayRatio * 100)}% gray)`);
+  if (regionCount < thresholds.minRegions) reasons.push(`Too few areas to color (${regionCount})`);
+  if (tinyRegionRatio > thresholds.maxTinyRegionRatio) reasons.push(`Too many tiny areas (${Math.round(tinyRegionRatio * 100)}%)`);
+
+  // Each metric costs more the closer it gets to its limit, up to double its weight once well past it.
+  const penalty = (value: number, limit: number, weight: number) => Math.min(2, (value / limit) ** 2) * weight;
+  const score = 100
+    - penalty(darkRatio, thresholds.maxDarkRatio, 35)
+    - penalty(grayRatio, thresholds.maxGrayRatio, 30)
+    - penalty(tinyRegionRatio, thresholds.maxTinyRegionRatio, 20)
+    - (regionCount < thresholds.minRegions ? 15 : 0);
+
+  return {
+    score: Math.max(0, Math.round(score)),
+    passed: reasons.length === 0,
+    reasons,
+    darkRatio,
+    grayRatio,
+    regionCount,
+    tinyRegionRatio
+  };
+}
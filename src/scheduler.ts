@@ -0,0 +1,113 @@
+export type TaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface TaskState {
+  status: TaskStatus;
+  /** 1-based attempt number; 0 while the task has never started. */
+  attempt: number;
+  error?: string;
+  /** The `code` the error carried, if any, so callers can tell a used-up quota from a failed drawing. */
+  code?: string;
+  /** Extra progress information from the task itself, e.g. why it is redrawing. */
+  detail?: string;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt, so a task runs at most `maxRetries + 1` times. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Whether an error is worth retrying; permanent failures give up immediately. */
+  isRetryable: (err: unknown) => boolean;
+  /** Stops retries and unstarted tasks; in-flight work should watch the same signal. */
+  signal?: AbortSignal;
+}
+
+export interface SchedulerOptions<K> extends RetryOptions {
+  concurrency: number;
+  onUpdate?: (key: K, state: TaskState) => void;
+}
+
+export interface Task<K, T> {
+  key: K;
+  run: () => Promise<T>;
+}
+
+export type TaskResult<K, T> =
+  | { key: K; status: 'done'; value: T }
+  | { key: K; status: 'failed'; error: unknown }
+  | { key: K; status: 'cancelled' };
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/** Full-jitter exponential backoff: a random wait up to `base * 2^(attempt - 1)`, capped. */
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+const errorCode = (err: unknown) => {
+  const code = (err as { code?: unknown })?.code;
+  return typeof code === 'string' ? { code } : {};
+};
+
+/** Runs `run`, retrying retryable failures with exponential backoff. */
+export async function withRetry<T>(
+  run: () => Promise<T>,
+  options: RetryOptions,
+  onUpdate?: (state: TaskState) => void
+): Promise<T> {
+  const { signal } = options;
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    onUpdate?.({ status: 'running', attempt });
+    try {
+      const value = await run();
+      onUpdate?.({ status: 'done', attempt });
+      return value;
+    } catch (err) {
+      if (signal?.aborted) {
+        onUpdate?.({ status: 'cancelled', attempt });
+        throw err;
+      }
+      if (attempt > options.maxRetries || !options.isRetryable(err)) {
+        onUpdate?.({ status: 'failed', attempt, error: errorMessage(err), ...errorCode(err) });
+        throw err;
+      }
+      onUpdate?.({ status: 'queued', attempt, error: errorMessage(err) });
+      await sleep(backoffDelay(attempt, options), signal);
+    }
+  }
+}
+
+/**
+ * Runs tasks with at most `concurrency` in flight. A failing task never stops
+ * the others; every task's outcome is reported in the returned array, in input order.
+ * Aborting `signal` marks unfinished tasks as cancelled.
+ */
+export async function runTasks<K, T>(tasks: Task<K, T>[], options: SchedulerOptions<K>): Promise<TaskResult<K, T>[]> {
+  const results: TaskResult<K, T>[] = new Array(tasks.length);
+  tasks.forEach(task => options.onUpdate?.(task.key, { status: 'queued', attempt: 0 }));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !options.signal?.aborted) {
+      const index = next++;
+      const { key, run } = tasks[index];
+      try {
+        const value = await withRetry(run, options, state => options.onUpdate?.(key, state));
+        results[index] = { key, status: 'done', value };
+      } catch (error) {
+        results[index] = options.signal?.aborted ? { key, status: 'cancelled' } : { key, status: 'failed', error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, tasks.length)) }, worker));
+  return tasks.map((task, index) => results[index] ?? { key: task.key, status: 'cancelled' });
+}
@@ -0,0 +1,396 @@
+import type { Difficulty, ThemePack } from './types.ts';
+
+export interface CoverTemplate {
+  id: string;
+  name: string;
+  bgColor: string;
+  textColor: string;
+  accentColor: string;
+}
+
+export const TEMPLATES: CoverTemplate[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    bgColor: '#f5f5f0',
+    textColor: '#282828',
+    accentColor: '#f97316'
+  },
+  {
+    id: 'sunshine',
+    name: 'Sunshine',
+    bgColor: '#fffbeb',
+    textColor: '#92400e',
+    accentColor: '#f59e0b'
+  },
+  {
+    id: 'sky',
+    name: 'Sky',
+    bgColor: '#f0f9ff',
+    textColor: '#075985',
+    accentColor: '#0ea5e9'
+  },
+  {
+    id: 'berry',
+    name: 'Berry',
+    bgColor: '#fdf2f8',
+    textColor: '#9d174d',
+    accentColor: '#ec4899'
+  }
+];
+
+export const templateById = (id: string): CoverTemplate =>
+  TEMPLATES.find(template => template.id === id) ?? TEMPLATES[0];
+
+/** Placeholders a pack's page prompts may use. */
+export const PACK_PLACEHOLDERS = ['{childName}', '{theme}', '{page}'];
+
+const PACK_FILE_FORMAT = 'coloring-book-theme-pack';
+const PACK_FILE_VERSION = 1;
+const MAX_PACK_PROMPTS = 30;
+const MAX_PROMPT_LENGTH = 300;
+const CUSTOM_PACKS_STORAGE_KEY = 'coloringBook.themePacks';
+
+export const BUILT_IN_PACKS: ThemePack[] = [
+  {
+    id: 'barbie',
+    name: 'Barbie',
+    description: 'Dream houses, fashion and big adventures.',
+    prompts: [
+      'Barbie waving hello in front of her Dreamhouse',
+      'Barbie designing a sparkly dress in her studio',
+      'Barbie and friends at a beach party',
+      'Barbie driving her convertible down a sunny road',
+      'Barbie as an astronaut floating in space',
+      'Barbie and {childName} having a tea party'
+    ],
+    palette: 'berry',
+    minAge: 3,
+    maxAge: 8
+  },
+  {
+    id: 'peppa-pig',
+    name: 'Peppa Pig',
+    description: 'Muddy puddles and family days out.',
+    prompts: [
+      'Peppa Pig jumping in a muddy puddle',
+      'Peppa and George playing with a dinosaur toy',
+      'The Pig family driving to the seaside',
+      'Peppa at playgroup painting a picture',
+      'Peppa and her friends at a birthday party',
+      'Peppa and {childName} flying a kite on a hill'
+    ],
+    palette: 'berry',
+    minAge: 2,
+    maxAge: 5
+  },
+  {
+    id: 'mowgli',
+    name: 'Mowgli',
+    description: 'Jungle friends from The Jungle Book.',
+    prompts: [
+      'Mowgli swinging through the jungle on a vine',
+      'Mowgli floating down the river on Baloo\'s belly',
+      'Bagheera the panther resting on a tree branch',
+      'Mowgli and the wolf pack under a full moon',
+      'Kaa the snake coiled around a jungle tree',
+      'Mowgli and {childName} exploring ancient jungle ruins'
+    ],
+    palette: 'sunshine',
+    minAge: 4,
+    maxAge: 9
+  },
+  {
+    id: 'like-nastya',
+    name: 'Like Nastya',
+    description: 'Playful everyday adventures and pretend play.',
+    prompts: [
+      'Nastya playing dress up with a big box of costumes',
+      'Nastya baking cupcakes in a cheerful kitchen',
+      'Nastya and her dad building a blanket fort',
+      'Nastya riding a bicycle in the park',
+      'Nastya having a pretend shop with toys',
+      'Nastya and {childName} dancing at a party'
+    ],
+    palette: 'berry',
+    minAge: 3,
+    maxAge: 7
+  },
+  {
+    id: 'paw-patrol',
+    name: 'Paw Patrol',
+    description: 'Rescue pups ready for action.',
+    prompts: [
+      'Chase the police pup with his rescue truck',
+      'Marshall the fire pup spraying his water cannon',
+      'Skye the pup flying her helicopter',
+      'The Paw Patrol pups lined up at the Lookout tower',
+      'Rubble the pup digging with his bulldozer',
+      'The pups rescuing a kitten from a tree with {childName}'
+    ],
+    palette: 'sky',
+    minAge: 2,
+    maxAge: 6
+  },
+  {
+    id: 'frozen',
+    name: 'Frozen',
+    description: 'Ice palaces, snowmen and sisters.',
+    prompts: [
+      'Elsa building an ice palace with swirling snowflakes',
+      'Anna and Elsa ice skating together',
+      'Olaf the snowman smelling summer flowers',
+      'Kristoff and Sven the reindeer on a snowy mountain',
+      'The castle of Arendelle by the fjord',
+      'Elsa making a snowman with {childName}'
+    ],
+    palette: 'sky',
+    minAge: 3,
+    maxAge: 8
+  },
+  {
+    id: 'spider-man',
+    name: 'Spider-Man',
+    description: 'Web-slinging hero of the city.',
+    prompts: [
+      'Spider-Man swinging between tall city buildings',
+      'Spider-Man crouching on a rooftop at night',
+      'Spider-Man shooting a web to stop a runaway bus',
+      'Spider-Man and friends in a heroic group pose',
+      'Spider-Man hanging upside down from a web',
+      'Spider-Man giving {childName} a high five'
+    ],
+    palette: 'classic',
+    minAge: 4,
+    maxAge: 10
+  },
+  {
+    id: 'bluey',
+    name: 'Bluey',
+    description: 'Imaginative games with the Heeler family.',
+    prompts: [
+      'Bluey and Bingo playing keepy-uppy with a balloon',
+      'Bluey and her dad playing a pretend game in the backyard',
+      'The Heeler family house with its big garden',
+      'Bluey and Bingo at the beach building sandcastles',
+      'Bluey playing hide and seek behind a tree',
+      'Bluey and {childName} having a pretend picnic'
+    ],
+    palette: 'sky',
+    minAge: 2,
+    maxAge: 6
+  },
+  {
+    id: 'cocomelon',
+    name: 'Cocomelon',
+    description: 'Sing-along songs and family fun.',
+    prompts: [
+      'JJ brushing his teeth with a big smile',
+      'JJ and his family at the farm with animals',
+      'JJ riding a yellow school bus',
+      'JJ splashing in a bubble bath',
+      'JJ and friends singing and clapping',
+      'JJ and {childName} playing with building blocks'
+    ],
+    palette: 'sunshine',
+    minAge: 1,
+    maxAge: 4
+  },
+  {
+    id: 'pokemon',
+    name: 'Pokémon',
+    description: 'Pocket monsters and trainer adventures.',
+    prompts: [
+      'Pikachu waving with a big smile',
+      'Bulbasaur, Charmander and Squirtle standing together',
+      'A trainer throwing a Poké Ball in a grassy field',
+      'Eevee resting under a tree',
+      'Snorlax sleeping on a hillside',
+      'Pikachu and {childName} on an adventure'
+    ],
+    palette: 'sunshine',
+    minAge: 4,
+    maxAge: 10
+  },
+  {
+    id: 'diwali',
+    name: 'Diwali',
+    description: 'The festival of lights: diyas, rangoli and sweets.',
+    prompts: [
+      '{childName} lighting a row of clay diyas',
+      'A big rangoli pattern made of flowers and dots',
+      'A family sharing a plate of laddoos and sweets',
+      'Fireworks bursting over a house decorated with lanterns',
+      'Hanging paper lanterns and marigold garlands',
+      'Children drawing rangoli at the front door',
+      'A decorated diya with a tall flame, close up',
+      'Friends exchanging gifts for Diwali'
+    ],
+    palette: 'sunshine',
+    minAge: 3,
+    maxAge: 10
+  },
+  {
+    id: 'ocean-animals',
+    name: 'Ocean Animals',
+    description: 'Friendly creatures from under the sea.',
+    prompts: [
+      'A smiling whale spouting water',
+      'An octopus juggling seashells',
+      'A sea turtle swimming over a coral reef',
+      'A clownfish peeking out of a sea anemone',
+      'A family of dolphins leaping out of the waves',
+      'A crab building a sandcastle on the beach',
+      'A seahorse among swaying seaweed',
+      '{childName} snorkeling with friendly fish'
+    ],
+    palette: 'sky',
+    minAge: 2,
+    maxAge: 8
+  },
+  {
+    id: 'alphabet-zoo',
+    name: 'Alphabet Zoo',
+    description: 'One zoo animal for every letter, with a big letter to color.',
+    prompts: [
+      'A big letter A next to an alligator',
+      'A big letter B next to a bear',
+      'A big letter C next to a camel',
+      'A big letter D next to a dolphin',
+      'A big letter E next to an elephant',
+      'A big letter F next to a flamingo',
+      'A big letter G next to a giraffe',
+      'A big letter H next to a hippo',
+      'A big letter I next to an iguana',
+      'A big letter J next to a jaguar',
+      'A big letter K next to a kangaroo',
+      'A big letter L next to a lion',
+      'A big letter M next to a monkey',
+      'A big letter N next to a narwhal',
+      'A big letter O next to an owl',
+      'A big letter P next to a penguin',
+      'A big letter Q next to a quail',
+      'A big letter R next to a rhino',
+      'A big letter S next to a snake',
+      'A big letter T next to a tiger',
+      'A big letter U next to an umbrellabird',
+      'A big letter V next to a vulture',
+      'A big letter W next to a walrus',
+      'A big letter X next to an x-ray fish',
+      'A big letter Y next to a yak',
+      'A big letter Z next to a zebra'
+    ],
+    palette: 'classic',
+    minAge: 2,
+    maxAge: 6
+  }
+];
+
+/** Fills `{name}` placeholders, leaving unknown ones as written. */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+/**
+ * Settings for each further time round a pack's prompts, so a book longer than
+ * the pack shows every subject anew instead of drawing (or reusing) the same page.
+ */
+const PACK_VARIATIONS = [
+  'at night under the moon and stars',
+  'on a rainy day',
+  'on a snowy winter day',
+  'at a birthday party',
+  'at the beach',
+  'in a garden full of flowers',
+  'on a picnic',
+  'at a parade',
+  'on a camping trip',
+  'at bedtime',
+];
+
+/** What each page of a `pageCount`-page book shows, cycling through the pack's prompts. */
+export const packPageSubjects = (pack: ThemePack, pageCount: number, values: { childName: string; theme: string }): string[] =>
+  Array.from({ length: pageCount }, (_, index) => {
+    const subject = fillTemplate(pack.prompts[index % pack.prompts.length], { ...values, page: String(index + 1) });
+    const round = Math.floor(index / pack.prompts.length);
+    return round === 0 ? subject : `${subject}, ${PACK_VARIATIONS[(round - 1) % PACK_VARIATIONS.length]}`;
+  });
+
+/** A few built-in packs, in random order, to offer instead of a theme that can't be drawn. */
+export const suggestThemePacks = (count = 3): ThemePack[] =>
+  BUILT_IN_PACKS
+    .map(pack => ({ pack, order: Math.random() }))
+    .sort((a, b) => a.order - b.order)
+    .slice(0, count)
+    .map(({ pack }) => pack);
+
+/** Pitches pages at the youngest child a pack is meant for. */
+export const difficultyForAges = (minAge: number): Difficulty =>
+  minAge < 3 ? 'toddler' : minAge < 5 ? 'preschool' : minAge < 8 ? 'early-reader' : 'older';
+
+const isText = (value: unknown, max: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+const isAge = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 18;
+
+/**
+ * Validates a pack read from a file or storage, throwing a message fit to show
+ * the user. Unknown palettes fall back to the first template.
+ */
+export function parseThemePack(data: unknown): Omit<ThemePack, 'id'> {
+  const pack = data as Partial<ThemePack> | null;
+  if (!pack || typeof pack !== 'object') throw new Error('This file is not a theme pack.');
+  if (!isText(pack.name, 60)) throw new Error('A theme pack needs a name of at most 60 characters.');
+  if (typeof pack.description !== 'string' || pack.description.length > 300) {
+    throw new Error('The description must be text of at most 300 characters.');
+  }
+  if (!Array.isArray(pack.prompts) || pack.prompts.length === 0 || pack.prompts.length > MAX_PACK_PROMPTS ||
+      !pack.prompts.every(prompt => isText(prompt, MAX_PROMPT_LENGTH))) {
+    throw new Error(`A theme pack needs 1 to ${MAX_PACK_PROMPTS} page prompts of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  if (!isAge(pack.minAge) || !isAge(pack.maxAge) || pack.minAge > pack.maxAge) {
+    throw new Error('The age range must be whole years from 0 to 18, youngest first.');
+  }
+  return {
+    name: pack.name.trim(),
+    description: pack.description.trim(),
+    prompts: pack.prompts.map(prompt => prompt.trim()),
+    palette: templateById(String(pack.palette)).id,
+    minAge: pack.minAge,
+    maxAge: pack.maxAge
+  };
+}
+
+/** Reads a shared `.json` pack file; the imported copy gets a fresh id so it never clobbers one already saved. */
+export async function importThemePack(file: File): Promise<ThemePack> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if ((data as { format?: unknown })?.format !== PACK_FILE_FORMAT) throw new Error('This file is not a theme pack.');
+  return { ...parseThemePack(data), id: `custom-${crypto.randomUUID()}` };
+}
+
+/** The JSON written by "Export"; ids are local, so they are left out. */
+export const exportThemePack = ({ id: _id, ...pack }: ThemePack): string =>
+  JSON.stringify({ format: PACK_FILE_FORMAT, version: PACK_FILE_VERSION, ...pack }, null, 2);
+
+export function loadCustomPacks(): ThemePack[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_PACKS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.flatMap(pack => {
+      try {
+        return typeof pack?.id === 'string' ? [{ ...parseThemePack(pack), id: pack.id }] : [];
+      } catch {
+        return [];
+      }
+    }) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const saveCustomPacks = (packs: ThemePack[]) =>
+  localStorage.setItem(CUSTOM_PACKS_STORAGE_KEY, JSON.stringify(packs));
@@ -0,0 +1,202 @@
+import type { Bitmap } from './lineArt.ts';
+
+export type Point = [number, number];
+
+/** Line art as filled outlines. Holes are separate contours; fill with the even-odd rule. */
+export interface VectorArt {
+  width: number;
+  height: number;
+  contours: Point[][];
+}
+
+export interface TraceOptions {
+  /** Maximum distance (px) a simplified outline may stray from the pixel edges. */
+  tolerance: number;
+  /** Outlines enclosing less than this many pixels are dropped as noise. */
+  minArea: number;
+}
+
+const DEFAULT_TRACE: TraceOptions = { tolerance: 1, minArea: 4 };
+
+// Edge directions, clockwise: right, down, left, up.
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+/**
+ * Walks the boundary between ink and paper along pixel edges. Every edge keeps
+ * ink on its right, so outer outlines run clockwise and holes counter-clockwise.
+ */
+function traceEdges({ width, height, ink }: Bitmap): Point[][] {
+  const isInk = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && ink[y * width + x] === 1;
+  const stride = width + 1;
+
+  // Up to two edges can leave a grid corner (where two ink pixels touch diagonally).
+  const outgoing = new Map<number, number[]>();
+  const edgeStart: number[] = [];
+  const edgeDir: number[] = [];
+  const addEdge = (x: number, y: number, dir: number) => {
+    const vertex = y * stride + x;
+    const id = edgeStart.length;
+    edgeStart.push(vertex);
+    edgeDir.push(dir);
+    const list = outgoing.get(vertex);
+    if (list) list.push(id);
+    else outgoing.set(vertex, [id]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isInk(x, y)) continue;
+      if (!isInk(x, y - 1)) addEdge(x, y, 0);
+      if (!isInk(x + 1, y)) addEdge(x + 1, y, 1);
+      if (!isInk(x, y + 1)) addEdge(x + 1, y + 1, 2);
+      if (!isInk(x - 1, y)) addEdge(x, y + 1, 3);
+    }
+  }
+
+  const used = new Uint8Array(edgeStart.length);
+  const loops: Point[][] = [];
+  for (let first = 0; first < edgeStart.length; first++) {
+    if (used[first]) continue;
+    const loop: Point[] = [];
+    let edge = first;
+    while (!used[edge]) {
+      used[edge] = 1;
+      const dir = edgeDir[edge];
+      const vertex = edgeStart[edge];
+      const x = vertex % stride;
+      const y = (vertex - x) / stride;
+      const end = (y + DY[dir]) * stride + x + DX[dir];
+
+      const candidates = (outgoing.get(end) ?? []).filter(id => !used[id] || id === first);
+      // Prefer turning right: pixels touching only at a corner get separate outlines, which fill the same.
+      const next = [1, 0, 3]
+        .map(turn => candidates.find(id => edgeDir[id] === (dir + turn) % 4))
+        .find(id => id !== undefined);
+
+      if (next === undefined || edgeDir[next] !== dir) loop.push([x + DX[dir], y + DY[dir]]);
+      if (next === undefined) break;
+      edge = next;
+    }
+    loops.push(loop);
+  }
+  return loops;
+}
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const vx = bx - ax;
+  const vy = by - ay;
+  const lengthSq = vx * vx + vy * vy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((px - ax) * vx + (py - ay) * vy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * vx), py - (ay + t * vy));
+};
+
+/** Ramer-Douglas-Peucker on an open polyline. */
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  let maxDistance = 0;
+  let split = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      split = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [points[0], points[points.length - 1]];
+  const left = simplifyPolyline(points.slice(0, split + 1), tolerance);
+  const right = simplifyPolyline(points.slice(split), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/** Simplifies a closed loop by splitting it at its first point and the point farthest from it. */
+function simplifyLoop(loop: Point[], tolerance: number): Point[] {
+  if (loop.length < 4) return loop;
+  let far = 0;
+  let farDistance = 0;
+  loop.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - loop[0][0], y - loop[0][1]);
+    if (distance > farDistance) {
+      farDistance = distance;
+      far = i;
+    }
+  });
+  const first = simplifyPolyline(loop.slice(0, far + 1), tolerance);
+  const second = simplifyPolyline([...loop.slice(far), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+export const polygonArea = (loop: Point[]) =>
+  Math.abs(loop.reduce((sum, [x, y], i) => {
+    const [nx, ny] = loop[(i + 1) % loop.length];
+    return sum + x * ny - nx * y;
+  }, 0)) / 2;
+
+/** Converts a black-and-white bitmap into simplified vector outlines. */
+export function traceBitmap(bitmap: Bitmap, options: Partial<TraceOptions> = {}): VectorArt {
+  const { tolerance, minArea } = { ...DEFAULT_TRACE, ...options };
+  const contours = traceEdges(bitmap)
+    .filter(loop => loop.length >= 3 && polygonArea(loop) >= minArea)
+    .map(loop => {
+      const simplified = simplifyLoop(loop, tolerance);
+      // Tiny shapes can collapse below a triangle; keep their exact outline instead.
+      return simplified.length >= 3 ? simplified : loop;
+    });
+  return { width: bitmap.width, height: bitmap.height, contours };
+}
+
+/** How far (px) each corner is rounded off; short edges round less. */
+const CORNER_RADIUS = 1.5;
+
+/** The point `distance` along the segment from `from` toward `to`. */
+const along = ([fx, fy]: Point, [tx, ty]: Point, distance: number): Point => {
+  const length = Math.hypot(tx - fx, ty - fy) || 1;
+  return [fx + ((tx - fx) * distance) / length, fy + ((ty - fy) * distance) / length];
+};
+
+/**
+ * Visits a contour as straight runs joined by small quadratic curves at each
+ * vertex, which smooths the leftover pixel staircase without melting real corners.
+ * `line` is called with the start of the next corner; `curve` rounds the corner itself.
+ */
+export function forEachSegment(
+  contour: Point[],
+  visit: { move: (to: Point) => void; line: (to: Point) => void; curve: (control: Point, to: Point) => void }
+) {
+  const corners = contour.map((vertex, i) => {
+    const previous = contour[(i + contour.length - 1) % contour.length];
+    const next = contour[(i + 1) % contour.length];
+    const radiusIn = Math.min(CORNER_RADIUS, Math.hypot(vertex[0] - previous[0], vertex[1] - previous[1]) / 2);
+    const radiusOut = Math.min(CORNER_RADIUS, Math.hypot(next[0] - vertex[0], next[1] - vertex[1]) / 2);
+    return { start: along(vertex, previous, radiusIn), vertex, end: along(vertex, next, radiusOut) };
+  });
+
+  visit.move(corners[0].start);
+  corners.forEach((corner, i) => {
+    if (i > 0) visit.line(corner.start);
+    visit.curve(corner.vertex, corner.end);
+  });
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function toSvgPath(art: VectorArt): string {
+  return art.contours.map(contour => {
+    let d = '';
+    forEachSegment(contour, {
+      move: ([x, y]) => { d += `M${round(x)} ${round(y)}`; },
+      line: ([x, y]) => { d += `L${round(x)} ${round(y)}`; },
+      curve: ([cx, cy], [x, y]) => { d += `Q${round(cx)} ${round(cy)} ${round(x)} ${round(y)}`; }
+    });
+    return `${d}Z`;
+  }).join('');
+}
+
+export function toSvg(art: VectorArt): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${art.width} ${art.height}" width="${art.width}" height="${art.height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<path fill="#000000" fill-rule="evenodd" d="${toSvgPath(art)}"/>`,
+    `</svg>`
+  ].join('');
+}
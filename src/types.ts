@@ -0,0 +1,233 @@
+import type { QualityReport } from './quality.ts';
+import type { TaskState } from './scheduler.ts';
+
+export interface GeneratedPage {
+  id: number;
+  /** The image shown and printed, after any line-art cleanup. */
+  base64: string;
+  prompt: string;
+  /** The image exactly as drawn or uploaded, kept so cleanup can be re-run or turned off. */
+  original?: string;
+  /** Printability score of `base64`, when it has been analyzed. */
+  quality?: QualityReport;
+  /** Story-mode text printed under the picture. */
+  caption?: string;
+  /** The uploaded photo a page was traced from, kept so it can be redrawn. */
+  photo?: string;
+  /** Color-by-number legend: the color for number `i + 1` printed on the page. */
+  colorKey?: string[];
+  /** The page as colored in on screen, lines included. */
+  colored?: string;
+  /** Set on puzzle pages drawn in the browser rather than by the AI. */
+  activity?: Activity;
+  /** The picture came from the server's image cache instead of a new generation; not saved. */
+  cached?: boolean;
+}
+
+export type ActivityKind = 'tracing' | 'maze' | 'dot-to-dot' | 'counting';
+export type ActivityLevel = 'easy' | 'medium' | 'hard';
+
+/** Everything needed to draw an activity page again, or a fresh variant with a new seed. */
+export interface Activity {
+  kind: ActivityKind;
+  level: ActivityLevel;
+  seed: number;
+}
+
+/** Age band that sets how thick, detailed and busy the drawn pages are. */
+export type Difficulty = 'toddler' | 'preschool' | 'early-reader' | 'older';
+
+/** A shareable set of page ideas for a theme, saved and exchanged as JSON. */
+export interface ThemePack {
+  id: string;
+  name: string;
+  description: string;
+  /** One page subject each, used in order; `{childName}`, `{theme}` and `{page}` are filled in. */
+  prompts: string[];
+  /** Id of the suggested cover template. */
+  palette: string;
+  minAge: number;
+  maxAge: number;
+}
+
+/** A child saved for quick setup and batch generation. */
+export interface ChildProfile {
+  id: string;
+  name: string;
+  difficulty: Difficulty;
+  /** Book themes to use when none is typed in; the first one is used for batch books. */
+  favoriteThemes: string[];
+  /** Id of the preferred cover template. */
+  template: string;
+  /** Cover photo, turned into the cover illustration like an uploaded one. */
+  photo?: string;
+}
+
+/** One beat of a story-mode book: the words under a page and what the page shows. */
+export interface StoryScene {
+  caption: string;
+  illustration: string;
+}
+
+export interface CoverPalette {
+  bgColor: string;
+  textColor: string;
+  accentColor: string;
+}
+
+export type CoverFont = 'helvetica' | 'times' | 'courier';
+export type CoverFrame = 'none' | 'simple' | 'double' | 'dashed' | 'corners';
+export type CoverImagePlacement = 'below' | 'above' | 'full' | 'none';
+
+/** Front and back cover choices. Empty text fields fall back to wording generated from the book. */
+export interface CoverDesign {
+  title: string;
+  subtitle: string;
+  font: CoverFont;
+  frame: CoverFrame;
+  /** Short text in an accent-colored badge, e.g. "Ages 4+"; empty hides the badge. */
+  badge: string;
+  imagePlacement: CoverImagePlacement;
+  dedication: string;
+}
+
+/** Everything needed to show a book in the results grid and rebuild its PDF. */
+export interface BookContent {
+  childName: string;
+  theme: string;
+  palette: CoverPalette;
+  coverImage: string | null;
+  pages: GeneratedPage[];
+  /** Missing on books saved before the cover designer existed. */
+  cover?: CoverDesign;
+  /** Reference picture of the main character, sent with every page request. */
+  characterImage?: string;
+}
+
+export interface Book extends BookContent {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A library listing entry; images are fetched separately via `thumbnailUrl`. */
+export interface BookSummary {
+  id: string;
+  childName: string;
+  theme: string;
+  pageCount: number;
+  thumbnailUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A generation job run by the server, so closing or reloading the tab never loses it. */
+export type JobStatus = 'queued' | 'running' | 'done' | 'cancelled';
+
+/** What to draw for one page of a job. */
+export interface JobPageRequest {
+  id: number;
+  /** A story scene's illustration or a theme pack's page subject. */
+  scene?: string;
+  /** Story text, copied onto the finished page. */
+  caption?: string;
+  /** Photo to trace into line art, copied onto the finished page. */
+  photo?: string;
+}
+
+export interface JobRequest {
+  theme: string;
+  difficulty?: Difficulty;
+  pages: JobPageRequest[];
+  /** Character reference sent with every page that isn't traced from a photo. */
+  reference?: string;
+  /** Draw the first page alone and use it as the reference for the rest. */
+  firstPageReference?: boolean;
+  /** Photo to turn into the cover illustration. */
+  coverPhoto?: string;
+  /** Draw every picture anew instead of reusing identical earlier ones from the image cache. */
+  fresh?: boolean;
+  /** Stored untouched, so a reopened tab can finish the book the way it was started. */
+  meta?: Record<string, unknown>;
+}
+
+export interface JobPage extends JobPageRequest {
+  state: TaskState;
+  /** The page as drawn, before any cleanup; set once `state` is done. */
+  page?: GeneratedPage;
+}
+
+export interface JobCover {
+  state: TaskState;
+  image?: string;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  theme: string;
+  difficulty?: Difficulty;
+  /** The character reference, including one taken from the first page. */
+  reference?: string;
+  /** Null when the job makes no cover. */
+  cover: JobCover | null;
+  pages: JobPage[];
+  meta: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Messages streamed by `/api/jobs/:id/events`, starting with a `job` snapshot. */
+export type JobEvent =
+  | { type: 'job'; job: Job }
+  | { type: 'page'; id: number; state: TaskState; page?: GeneratedPage }
+  | { type: 'cover'; cover: JobCover }
+  | { type: 'reference'; reference: string }
+  | { type: 'status'; status: JobStatus };
+
+/** Why the API refused a request, sent as `code` alongside the error message. */
+export type ApiErrorCode = 'quota_exceeded' | 'rate_limited' | 'content_blocked' | 'safety_blocked';
+
+/** What a model call was for: a coloring page, a cover illustration or a story outline. */
+export type UsageKind = 'page' | 'cover' | 'story';
+
+export interface UsageCall {
+  user: string;
+  kind: UsageKind;
+  model: string;
+  ok: boolean;
+  error?: string;
+  latencyMs: number;
+  createdAt: string;
+}
+
+export interface UserUsage {
+  user: string;
+  /** Pictures drawn today, which is what the daily quota counts. */
+  imagesToday: number;
+  /** Null when the user has no daily limit. */
+  quota: number | null;
+  images: number;
+  stories: number;
+  failures: number;
+  averageLatencyMs: number;
+  estimatedCostUsd: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  images: number;
+  stories: number;
+  failures: number;
+}
+
+/** `/api/usage`: model calls over the last `days` days. */
+export interface UsageReport {
+  days: number;
+  /** Who the server thinks is asking, and their standing today. */
+  you: { user: string; imagesToday: number; quota: number | null };
+  users: UserUsage[];
+  daily: DailyUsage[];
+  recent: UsageCall[];
+  costPerImageUsd: number;
+}